@@ -1,96 +1,249 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { generateArticleFromPdf, generateCoverImage } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import { generateArticleFromPdf } from './services/geminiService';
 import { extractImagesFromPdf, ExtractedImage } from './utils/pdfUtils';
 import ArticleRenderer, { ArticleRendererHandle } from './components/ArticleRenderer';
-import { GeneratedArticle, ProcessingState, ImageGenerationState } from './types';
+import ProviderSettings from './components/ProviderSettings';
+import ErrorNotice from './components/ErrorNotice';
+import WechatPublishPanel from './components/WechatPublishPanel';
+import ThemeSwitcher, { initialTheme } from './components/ThemeSwitcher';
+import ProjectLibrary from './components/ProjectLibrary';
+import BatchQueuePanel, { BatchQueuePanelHandle } from './components/BatchQueuePanel';
+import RoundupPanel from './components/RoundupPanel';
+import CropEditor from './components/CropEditor';
+import ImageSettingsPanel from './components/ImageSettingsPanel';
+import VerificationPanel from './components/VerificationPanel';
+import PdfSourceViewer from './components/PdfSourceViewer';
+import PromptProfilePanel from './components/PromptProfilePanel';
+import CoverPanel, { EMPTY_COVER_SET, useCoverOverlay } from './components/CoverPanel';
+import { ScholarError, classifyError } from './services/errors';
+import { getActiveProvider } from './services/providers';
+import { findProfile, initialProfile } from './services/promptProfiles';
+import { OUTPUT_LANGUAGES } from './services/articleSchema';
+import { createSectionAssistant } from './services/sectionRewrite';
+import { Project, newProjectId, saveProject } from './services/projectStore';
+import { isRoundup } from './utils/articleText';
+import { WECHAT_IMAGE_MAX_BYTES, formatBytes, loadImageSettings } from './utils/imageProcessing';
+import { loadCoverOverlay } from './utils/coverImage';
+import { VerificationReport } from './utils/claimVerification';
+import { AnyArticle, RoundupArticle, ProcessingState, CoverImageSize, CoverSet, CoverStyle, GenerationMode, ArticleTheme, ArticleDocument, OutputLanguage, PromptProfile, SourceAnchor } from './types';
 
 const App: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<ProcessingState>(ProcessingState.IDLE);
   const [statusMessage, setStatusMessage] = useState<string>('');
-  const [article, setArticle] = useState<GeneratedArticle | null>(null);
+  const [error, setError] = useState<ScholarError | null>(null);
+  const [article, setArticle] = useState<AnyArticle | null>(null);
   const [extractedImages, setExtractedImages] = useState<ExtractedImage[]>([]);
   
   // Image Gen State
-  const [imgGenStatus, setImgGenStatus] = useState<ImageGenerationState>(ImageGenerationState.IDLE);
-  const [coverImageUrl, setCoverImageUrl] = useState<string | undefined>(undefined);
-  const [imgSize, setImgSize] = useState<"1K" | "2K" | "4K">("1K");
+  const [covers, setCovers] = useState<CoverSet>(EMPTY_COVER_SET);
+  const [coverStyle, setCoverStyle] = useState<CoverStyle>('editorial');
+  const [coverOverlay, setCoverOverlay] = useState(loadCoverOverlay);
+  const [imgSize, setImgSize] = useState<CoverImageSize>("1K");
   const [editablePrompt, setEditablePrompt] = useState<string>("");
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('auto');
+  const [profile, setProfile] = useState<PromptProfile>(initialProfile);
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>('zh-CN');
+  const [bilingual, setBilingual] = useState(false);
+  const [providerLabel, setProviderLabel] = useState<string>(() => getActiveProvider().label);
+  const [theme, setTheme] = useState<ArticleTheme>(initialTheme);
+  const [imageSettings, setImageSettings] = useState(loadImageSettings);
+  // The picked covers as they go out: with the series title drawn on when the overlay is on
+  const coverImageUrl = useCoverOverlay(covers.selected.headline, coverOverlay, theme.fonts.heading, imageSettings);
+  const shareImageUrl = useCoverOverlay(covers.selected.square, coverOverlay, theme.fonts.heading, imageSettings);
+
+  // Project library: the current paper is autosaved under `projectId`
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectCreatedAt, setProjectCreatedAt] = useState(0);
+  const [savedDocument, setSavedDocument] = useState<ArticleDocument | null>(null); // restored on open
+  const [editedDocument, setEditedDocument] = useState<ArticleDocument | null>(null);
+  const [verification, setVerification] = useState<VerificationReport | null>(null);
+  // The PDF beside the article: closed, open, or open on a paragraph's sources
+  const [sourceView, setSourceView] = useState<{ sources: SourceAnchor[] | null } | null>(null);
+  const [libraryRevision, setLibraryRevision] = useState(0);
 
   // Ref to access the renderer
   const rendererRef = useRef<ArticleRendererHandle>(null);
+  // The figure open in the crop editor; `image: null` draws a new one
+  const [cropTarget, setCropTarget] = useState<{ image: ExtractedImage | null } | null>(null);
+  const batchRef = useRef<BatchQueuePanelHandle>(null);
+  // Aborts the in-flight generation when the user cancels
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Section rewrites read the paper once per article and follow the profile it was
+  // written with, not the one selected now; roundups have no paper to go back to
+  const sectionAssistant = useMemo(
+    () => (article && !isRoundup(article)
+      ? createSectionAssistant({ file, articleTitle: article.title, profile: findProfile(article.profileId), language: article.language ?? 'zh-CN' })
+      : undefined),
+    [file, article]
+  );
 
-  // Update editable prompt when article changes
+  // Autosave a finished article and everything made from it, a moment after the last change
   useEffect(() => {
-    if (article?.coverImagePrompt) {
-      setEditablePrompt(article.coverImagePrompt);
-    }
-  }, [article]);
+    if (status !== ProcessingState.COMPLETE || !article || !projectId) return;
+    const timer = setTimeout(() => {
+      const project: Project = {
+        id: projectId,
+        createdAt: projectCreatedAt,
+        updatedAt: Date.now(),
+        fileName: file?.name || (isRoundup(article) ? 'roundup' : 'paper.pdf'),
+        pdf: file,
+        article,
+        document: editedDocument,
+        figures: extractedImages,
+        coverImages: covers.candidates.headline,
+        coverImageUrl: covers.selected.headline,
+        shareImages: covers.candidates.square,
+        shareImageUrl: covers.selected.square,
+        coverPrompt: editablePrompt,
+        coverSize: imgSize,
+        coverStyle,
+        verification: verification ?? undefined
+      };
+      saveProject(project)
+        .then(() => setLibraryRevision(r => r + 1))
+        .catch(e => console.warn("Autosave failed", e));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [status, article, projectId, editedDocument, extractedImages, covers, editablePrompt, imgSize, coverStyle, verification]);
+
+  const resetProject = () => {
+    setProjectId(null);
+    setSavedDocument(null);
+    setEditedDocument(null);
+    setCovers(EMPTY_COVER_SET);
+    setVerification(null);
+    setSourceView(null);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+    // Folders can contain anything; only PDFs go on
+    const pdfs = Array.from(e.target.files ?? []).filter((f: File) => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf'));
+    e.target.value = '';
+    if (pdfs.length > 1) {
+      batchRef.current?.enqueue(pdfs);
+    } else if (pdfs.length === 1) {
+      setFile(pdfs[0]);
       setStatus(ProcessingState.IDLE);
       setArticle(null);
-      setCoverImageUrl(undefined);
       setExtractedImages([]);
       setEditablePrompt("");
+      resetProject();
     }
   };
 
   const handleProcess = async () => {
     if (!file) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       setStatus(ProcessingState.READING);
+      setError(null);
+      setArticle(null);
+      resetProject();
       
       // 1. Extract Images first
-      setStatusMessage("Scanning PDF for Figures (Figure 1, Figure 2...)...");
+      setStatusMessage("Scanning PDF for Figures and Tables (Figure 1, Table 1...)...");
       try {
-        const images = await extractImagesFromPdf(file);
+        const images = await extractImagesFromPdf(file, {
+          signal: controller.signal,
+          onProgress: (page, numPages) => setStatusMessage(`Scanning page ${page}/${numPages} for figures and tables...`),
+          imageSettings
+        });
         console.log("Extracted images:", images);
         setExtractedImages(images);
         if (images.length === 0) {
             setStatusMessage("No captions found (e.g. 'Figure 1'). Proceeding with text only...");
             await new Promise(r => setTimeout(r, 1000));
         } else {
-             setStatusMessage(`Found ${images.length} figures! Analyzing text...`);
+             setStatusMessage(`Found ${images.length} figures and tables! Analyzing text...`);
         }
       } catch (err) {
         console.warn("Figure extraction failed", err);
         setStatusMessage("Figure extraction skipped due to error. Analyzing text...");
       }
+      controller.signal.throwIfAborted();
       
-      // 2. Read file for Gemini
-      const base64 = await fileToBase64(file);
-      
+      // 2. Hand the file to the selected provider (inline PDF or extracted text)
       setStatus(ProcessingState.GENERATING);
       
-      const result = await generateArticleFromPdf(base64, (msg) => setStatusMessage(msg));
+      const result = await generateArticleFromPdf(file, (msg) => setStatusMessage(msg), {
+        mode: generationMode,
+        profile,
+        language: outputLanguage,
+        bilingual,
+        signal: controller.signal,
+        // Live preview: the renderer fills in as the response streams
+        onPartial: (partial) => setArticle(partial)
+      });
       
       setArticle(result);
+      setEditablePrompt(result.coverImagePrompt || "");
+      // Every successful generation becomes its own project, so earlier versions stay in the library
+      setProjectId(newProjectId());
+      setProjectCreatedAt(Date.now());
       setStatus(ProcessingState.COMPLETE);
     } catch (error) {
+      if (controller.signal.aborted) return; // handleCancel already reset the UI
       console.error(error);
+      setError(classifyError(error));
       setStatus(ProcessingState.ERROR);
       setStatusMessage("Failed to process PDF. Please try again.");
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleGenerateImage = async () => {
-    if (!editablePrompt) return;
-    
-    try {
-      setImgGenStatus(ImageGenerationState.GENERATING);
-      const url = await generateCoverImage(editablePrompt, imgSize);
-      setCoverImageUrl(url);
-      setImgGenStatus(ImageGenerationState.COMPLETE);
-    } catch (e) {
-      console.error(e);
-      setImgGenStatus(ImageGenerationState.ERROR);
-    }
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setArticle(null);
+    setStatus(ProcessingState.IDLE);
+    setStatusMessage('');
+  };
+
+  const handleOpenProject = (project: Project) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setFile(project.pdf ? new File([project.pdf], project.fileName, { type: 'application/pdf' }) : null);
+    setError(null);
+    setStatusMessage('');
+    setProjectId(project.id);
+    setProjectCreatedAt(project.createdAt);
+    setSavedDocument(project.document);
+    setEditedDocument(project.document);
+    setArticle(project.article);
+    setExtractedImages(project.figures);
+    setCovers({
+      candidates: { headline: project.coverImages, square: project.shareImages ?? [] },
+      selected: { headline: project.coverImageUrl, square: project.shareImageUrl }
+    });
+    setEditablePrompt(project.coverPrompt);
+    setImgSize(project.coverSize);
+    setCoverStyle(project.coverStyle ?? 'editorial');
+    setVerification(project.verification ?? null);
+    setSourceView(null);
+    setStatus(ProcessingState.COMPLETE);
+  };
+
+  // A roundup has no PDF of its own; the source papers' figures stay available for insertion
+  const handleRoundupCreated = (roundup: RoundupArticle, figures: ExtractedImage[]) => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setFile(null);
+    setError(null);
+    setStatusMessage('');
+    resetProject();
+    setArticle(roundup);
+    setExtractedImages(figures);
+    setEditablePrompt(roundup.coverImagePrompt || "");
+    setProjectId(newProjectId());
+    setProjectCreatedAt(Date.now());
+    setStatus(ProcessingState.COMPLETE);
   };
 
   const handleInsertFigure = (img: ExtractedImage) => {
@@ -99,6 +252,19 @@ const App: React.FC = () => {
     }
   };
 
+  const handleInsertTable = (img: ExtractedImage) => {
+    rendererRef.current?.insertTable(img);
+  };
+
+  // A re-cropped figure takes the place of the original (several, after a split); new ones go last.
+  const handleCropSaved = (images: ExtractedImage[]) => {
+    const original = cropTarget?.image;
+    setExtractedImages(prev => original
+      ? prev.flatMap(img => (img.id === original.id ? images : [img]))
+      : [...prev, ...images]);
+    setCropTarget(null);
+  };
+
   return (
     <div className="min-h-screen flex flex-col md:flex-row font-sans text-gray-800 bg-slate-50">
       
@@ -114,6 +280,21 @@ const App: React.FC = () => {
           <p className="text-xs text-gray-500">Transform Papers to Posts Instantly</p>
         </div>
 
+        <ProviderSettings onChange={() => setProviderLabel(getActiveProvider().label)} />
+
+        <ThemeSwitcher theme={theme} onChange={setTheme} />
+
+        <ImageSettingsPanel settings={imageSettings} onChange={setImageSettings} />
+
+        <ProjectLibrary
+          activeProjectId={projectId}
+          revision={libraryRevision}
+          onOpen={handleOpenProject}
+          onDeleted={(id) => { if (id === projectId) setProjectId(null); }}
+        />
+
+        <RoundupPanel revision={libraryRevision} onCreated={handleRoundupCreated} />
+
         {/* Upload Section */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">1. Upload Paper (PDF)</label>
@@ -121,6 +302,7 @@ const App: React.FC = () => {
             <input
               type="file"
               accept="application/pdf"
+              multiple
               onChange={handleFileChange}
               className="block w-full text-sm text-gray-500
                 file:mr-4 file:py-2.5 file:px-4
@@ -133,8 +315,51 @@ const App: React.FC = () => {
               "
             />
           </div>
+          <p className="text-[10px] text-gray-400 mt-1">
+            Select several files, or{' '}
+            <label className="text-green-600 hover:underline cursor-pointer">
+              a whole folder
+              <input type="file" multiple ref={(el) => el?.setAttribute('webkitdirectory', '')} onChange={handleFileChange} className="hidden" />
+            </label>
+            , to queue them as a batch.
+          </p>
+        </div>
+
+        {/* Generation Mode */}
+        <div className="mb-4 flex items-center gap-2">
+          <span className="text-xs text-gray-600">Mode:</span>
+          {([['auto', 'Auto'], ['single', 'Single pass'], ['staged', 'Long paper']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setGenerationMode(mode)}
+              title={mode === 'staged' ? 'Summarize the paper part by part, then compose (theses, 40+ pages)' : undefined}
+              className={`text-xs px-2 py-1 rounded border ${generationMode === mode ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-gray-200 text-gray-600'}`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
+        {/* Output Language */}
+        <div className="mb-4 flex items-center gap-2">
+          <span className="text-xs text-gray-600">Language:</span>
+          <select
+            value={outputLanguage}
+            onChange={(e) => setOutputLanguage(e.target.value as OutputLanguage)}
+            className="text-xs border border-gray-300 rounded bg-white px-1 py-1"
+          >
+            {(Object.keys(OUTPUT_LANGUAGES) as OutputLanguage[]).map(lang => (
+              <option key={lang} value={lang}>{OUTPUT_LANGUAGES[lang].label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer" title="Each paragraph also carries the paper's original wording">
+            <input type="checkbox" checked={bilingual} onChange={(e) => setBilingual(e.target.checked)} />
+            Bilingual
+          </label>
+        </div>
+
+        <PromptProfilePanel profile={profile} onChange={setProfile} />
+
         {/* Action Button */}
         <button
           onClick={handleProcess}
@@ -161,47 +386,92 @@ const App: React.FC = () => {
           )}
         </button>
 
+        {(status === ProcessingState.READING || status === ProcessingState.GENERATING) && (
+          <button
+            onClick={handleCancel}
+            className="w-full mt-2 py-2 px-4 rounded-xl text-sm font-semibold text-gray-600 bg-white border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+
         {/* Status Messages */}
-        {status !== ProcessingState.IDLE && status !== ProcessingState.COMPLETE && (
+        {(status === ProcessingState.READING || status === ProcessingState.GENERATING) && (
           <div className="mt-4 p-4 bg-blue-50 text-blue-800 text-xs rounded-lg border border-blue-100 animate-pulse">
             <p className="font-semibold mb-1">Status:</p>
             {statusMessage}
           </div>
         )}
 
-        {status === ProcessingState.ERROR && (
-          <div className="mt-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100">
-            Error processing file. Please ensure it is a valid PDF.
-          </div>
-        )}
+        {status === ProcessingState.ERROR && error && <ErrorNotice error={error} />}
+
+        <BatchQueuePanel
+          ref={batchRef}
+          generation={{ mode: generationMode, profile, language: outputLanguage, bilingual }}
+          imageSettings={imageSettings}
+          onOpen={handleOpenProject}
+          onProjectSaved={() => setLibraryRevision(r => r + 1)}
+        />
 
         {/* Extracted Figures List - CLICK TO INSERT */}
-        {extractedImages.length > 0 && (
+        {(extractedImages.length > 0 || (file && status === ProcessingState.COMPLETE)) && (
            <div className="mt-6 flex-1 overflow-hidden flex flex-col min-h-[200px]">
-             <h3 className="text-sm font-semibold text-gray-700 mb-2 flex justify-between">
-                <span>Extracted Figures</span>
-                <span className="text-xs text-wechat-primary font-normal">Click to Insert →</span>
+             <h3 className="text-sm font-semibold text-gray-700 mb-2 flex justify-between items-center">
+                <span>Extracted Figures & Tables</span>
+                <span className="flex items-center gap-2">
+                  {file && (
+                    <button onClick={() => setCropTarget({ image: null })} className="text-xs font-normal text-gray-500 hover:text-wechat-primary" title="Crop a new figure from any page">
+                      + Add
+                    </button>
+                  )}
+                  <span className="text-xs text-wechat-primary font-normal">Click to Insert →</span>
+                </span>
              </h3>
              <div className="grid grid-cols-2 gap-2 overflow-y-auto border p-2 rounded bg-gray-50 flex-1">
                 {extractedImages.map(img => (
-                  <button 
-                    key={img.id} 
-                    onClick={() => handleInsertFigure(img)}
-                    className="group relative bg-white border border-gray-200 rounded hover:border-wechat-primary hover:shadow-md transition-all text-left"
-                    title={`Insert ${img.label}`}
-                  >
-                    <div className="aspect-square w-full p-1 flex items-center justify-center bg-white">
-                        <img src={img.src} className="max-w-full max-h-full object-contain" alt={`Page ${img.page}`} />
-                    </div>
-                    <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-all flex items-center justify-center">
-                        <span className="opacity-0 group-hover:opacity-100 bg-wechat-primary text-white text-xs px-2 py-1 rounded-full font-bold shadow-sm">
-                            + Insert
-                        </span>
+                  <div key={img.id} className="flex flex-col">
+                    <button 
+                      onClick={() => handleInsertFigure(img)}
+                      className="group relative bg-white border border-gray-200 rounded hover:border-wechat-primary hover:shadow-md transition-all text-left"
+                      title={`Insert ${img.label}`}
+                    >
+                      <div className="aspect-square w-full p-1 flex items-center justify-center bg-white">
+                          <img src={img.src} className="max-w-full max-h-full object-contain" alt={`Page ${img.page}`} />
+                      </div>
+                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-all flex items-center justify-center">
+                          <span className="opacity-0 group-hover:opacity-100 bg-wechat-primary text-white text-xs px-2 py-1 rounded-full font-bold shadow-sm">
+                              + Insert
+                          </span>
+                      </div>
+                      <div className="p-1 text-[10px] text-gray-500 truncate text-center border-t border-gray-100 bg-gray-50">
+                          {img.label} (P{img.page})
+                          {img.confidence !== undefined && img.confidence < 0.5 && (
+                            <span className="ml-1 text-amber-600" title={`Crop may be off (confidence ${Math.round(img.confidence * 100)}%)`}>⚠</span>
+                          )}
+                          {img.blob && img.blob.size > WECHAT_IMAGE_MAX_BYTES && (
+                            <span className="ml-1 text-red-600" title="Over WeChat's 1 MB per-image limit; lower the max width or quality and crop again">
+                              {formatBytes(img.blob.size)}
+                            </span>
+                          )}
+                      </div>
+                    </button>
+                    <div className="mt-1 flex justify-center gap-2 text-[10px]">
+                      {file && (
+                        <button onClick={() => setCropTarget({ image: img })} className="text-gray-500 hover:text-wechat-primary" title={`Adjust the crop of ${img.label}`}>
+                          ✂ Crop
+                        </button>
+                      )}
+                      {img.rows?.length ? (
+                        <button
+                          onClick={() => handleInsertTable(img)}
+                          className="text-wechat-primary hover:underline"
+                          title={`Insert ${img.label} as an editable table`}
+                        >
+                          + As table ({img.rows.length}×{img.rows[0].length})
+                        </button>
+                      ) : null}
                     </div>
-                    <div className="p-1 text-[10px] text-gray-500 truncate text-center border-t border-gray-100 bg-gray-50">
-                        {img.label} (P{img.page})
-                    </div>
-                  </button>
+                  </div>
                 ))}
              </div>
            </div>
@@ -209,57 +479,69 @@ const App: React.FC = () => {
 
         {/* Image Generation Section */}
         {status === ProcessingState.COMPLETE && article && (
-          <div className="mt-6 pt-6 border-t border-gray-100">
-            <label className="block text-sm font-medium text-gray-700 mb-2">2. Cover Image (AI)</label>
-            <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
-               
-               {/* EDITABLE PROMPT */}
-               <div className="mb-3">
-                   <label className="text-[10px] uppercase text-gray-500 font-bold mb-1 block">Prompt (Editable):</label>
-                   <textarea
-                     value={editablePrompt}
-                     onChange={(e) => setEditablePrompt(e.target.value)}
-                     className="w-full h-24 text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 resize-none bg-white text-gray-700"
-                     placeholder="Describe the cover image..."
-                   />
-               </div>
-               
-               <div className="flex items-center gap-2 mb-3">
-                 <span className="text-xs text-gray-600">Size:</span>
-                 {(['1K', '2K', '4K'] as const).map(s => (
-                   <button 
-                     key={s}
-                     onClick={() => setImgSize(s)}
-                     className={`text-xs px-2 py-1 rounded border ${imgSize === s ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'bg-white border-gray-200 text-gray-600'}`}
-                   >
-                     {s}
-                   </button>
-                 ))}
-               </div>
-
-               <button
-                 onClick={handleGenerateImage}
-                 disabled={imgGenStatus === ImageGenerationState.GENERATING || !editablePrompt}
-                 className="w-full py-2 bg-indigo-600 text-white rounded-lg text-xs font-semibold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2"
-               >
-                 {imgGenStatus === ImageGenerationState.GENERATING ? 'Generating...' : 'Generate with Gemini 3 Pro'}
-               </button>
-            </div>
-          </div>
+          <CoverPanel
+            prompt={editablePrompt}
+            onPromptChange={setEditablePrompt}
+            size={imgSize}
+            onSizeChange={setImgSize}
+            style={coverStyle}
+            onStyleChange={setCoverStyle}
+            covers={covers}
+            onCoversChange={setCovers}
+            overlay={coverOverlay}
+            onOverlayChange={setCoverOverlay}
+            composed={{ headline: coverImageUrl, square: shareImageUrl }}
+            imageSettings={imageSettings}
+            providerLabel={providerLabel}
+            figures={extractedImages}
+            title={editedDocument?.title ?? article.title}
+            bandColor={theme.colors.primary}
+            fontFamily={theme.fonts.heading}
+          />
+        )}
+
+        {/* Fact check against the PDF text */}
+        {status === ProcessingState.COMPLETE && article && !isRoundup(article) && (
+          <VerificationPanel file={file} document={editedDocument} report={verification} onReport={setVerification} />
+        )}
+
+        {/* WeChat Draft Publishing */}
+        {status === ProcessingState.COMPLETE && article && (
+          <WechatPublishPanel
+            article={article}
+            title={editedDocument?.title ?? article.title}
+            coverImageUrl={coverImageUrl}
+            getExport={async () => rendererRef.current?.exportWechat() ?? null}
+          />
         )}
       </div>
 
       {/* Right Panel: Output */}
       <div className="flex-1 bg-slate-100 relative h-screen overflow-hidden">
         {article ? (
-          <div className="h-full p-4 md:p-8">
-            <ArticleRenderer 
-              ref={rendererRef}
-              article={article} 
-              coverImageUrl={coverImageUrl}
-              extractedImages={extractedImages}
-              onCopy={() => {}}
-            />
+          <div className="h-full flex">
+            <div className="h-full flex-1 min-w-0 p-4 md:p-8">
+              <ArticleRenderer 
+                ref={rendererRef}
+                article={article} 
+                coverImageUrl={coverImageUrl}
+                extractedImages={extractedImages}
+                isStreaming={status === ProcessingState.GENERATING}
+                theme={theme}
+                initialDocument={savedDocument}
+                onDocumentChange={setEditedDocument}
+                onCopy={() => {}}
+                sectionAssistant={sectionAssistant}
+                verification={verification}
+                onShowSource={file ? (sources) => setSourceView({ sources }) : undefined}
+                sourceViewerOpen={!!sourceView}
+              />
+            </div>
+            {file && sourceView && (
+              <div className="h-full w-[45%] shrink-0">
+                <PdfSourceViewer file={file} sources={sourceView.sources} onClose={() => setSourceView(null)} />
+              </div>
+            )}
           </div>
         ) : (
           <div className="h-full flex flex-col items-center justify-center text-gray-400 p-8 text-center">
@@ -271,6 +553,16 @@ const App: React.FC = () => {
           </div>
         )}
       </div>
+
+      {cropTarget && file && (
+        <CropEditor
+          file={file}
+          image={cropTarget.image}
+          imageSettings={imageSettings}
+          onSave={handleCropSaved}
+          onClose={() => setCropTarget(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,197 +1,795 @@
 import React, { useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
-import { GeneratedArticle } from '../types';
+import { AnyArticle, ArticleBlock, ArticleBlockType, ArticleDocument, ArticleTheme, BilingualLayout, SourceAnchor } from '../types';
 import { ExtractedImage } from '../utils/pdfUtils';
+import { WechatExportResult, buildWechatExport, createExportZip, downloadBlob, withImageSources } from '../utils/wechatExport';
+import { articleByline, formatSectionNumber, isRoundup, localizeTheme, parseBoldSegments, sourceEntries } from '../utils/articleText';
+import { highlightBoxStyle, sectionHeaderStyles } from '../utils/themes';
+import { ArticleExportInput, exportDocx, exportFileName, exportMarkdown, exportStandaloneHtml } from '../utils/articleExporters';
+import {
+  documentToPlainText, figureBlock, headingNumbers, insertBlockAfter, markupRange, moveBlock, newBlockId, removeBlock, replaceSectionText,
+  sectionBlocks, sectionHeadingOf, tableBlock, toDocument, updateBlock
+} from '../utils/articleDocument';
+import { History, createHistory, pushHistory, redoHistory, undoHistory } from '../utils/documentHistory';
+import { diffText } from '../utils/textDiff';
+import { ScholarError, classifyError, isAbortError } from '../services/errors';
+import { REWRITE_STYLES, RewriteStyle, SectionAssistant, SectionText } from '../services/sectionRewrite';
+import { VerificationReport, checksForBlock } from '../utils/claimVerification';
+import EditableText from './EditableText';
+import ErrorNotice from './ErrorNotice';
 
 export interface ArticleRendererHandle {
   insertImage: (image: ExtractedImage) => void;
+  insertTable: (image: ExtractedImage) => void; // the cell grid of an extracted table
+  exportWechat: () => Promise<WechatExportResult | null>;
+  getDocument: () => ArticleDocument;
 }
 
 interface ArticleRendererProps {
-  article: GeneratedArticle;
+  article: AnyArticle; // a single paper, or a roundup rendered as intro + paper cards
   coverImageUrl?: string;
   extractedImages: ExtractedImage[]; // Passed down to allow auto-matching
+  isStreaming?: boolean; // Article is still arriving; editing is disabled until it completes
+  theme: ArticleTheme;
+  initialDocument?: ArticleDocument | null; // saved edits to restore instead of re-deriving from `article`
+  onDocumentChange?: (doc: ArticleDocument) => void;
   onCopy: () => void;
+  sectionAssistant?: SectionAssistant; // per-section regenerate and rewrite; absent for roundups
+  verification?: VerificationReport | null; // fact check results, marked under the blocks they cover
+  onShowSource?: (sources: SourceAnchor[] | null) => void; // opens the PDF viewer, on a paragraph's passages if given
+  sourceViewerOpen?: boolean; // while open, clicking a paragraph shows its sources
 }
 
-const ArticleRenderer = forwardRef<ArticleRendererHandle, ArticleRendererProps>(({ article, coverImageUrl, extractedImages, onCopy }, ref) => {
+interface DropTarget {
+  id: string;
+  position: 'before' | 'after';
+}
+
+// A model rewrite waiting for the user, shown as a diff under the block it is for.
+interface Proposal {
+  anchorId: string;
+  label: string;
+  before: string;
+  after: string;
+  apply: (blocks: ArticleBlock[]) => ArticleBlock[] | null; // null: the text was edited since the request
+  stale?: boolean; // accepting found the text edited; the proposal no longer applies
+}
+
+type AssistantStatus =
+  | { anchorId: string; label: string; controller: AbortController }
+  | { anchorId: string; error: ScholarError };
+
+// Blocks the "Add" toolbar can create, with their empty starting content.
+const NEW_BLOCKS: { type: ArticleBlockType; label: string; create: () => ArticleBlock }[] = [
+  { type: 'paragraph', label: '¶ Text', create: () => ({ id: newBlockId(), type: 'paragraph', text: '' }) },
+  { type: 'heading', label: 'H Heading', create: () => ({ id: newBlockId(), type: 'heading', text: '新章节' }) },
+  { type: 'quote', label: '❝ Quote', create: () => ({ id: newBlockId(), type: 'quote', text: '' }) },
+  { type: 'highlight', label: '💡 Highlight', create: () => ({ id: newBlockId(), type: 'highlight', text: '' }) },
+  { type: 'terms', label: '# Terms', create: () => ({ id: newBlockId(), type: 'terms', terms: ['Term'] }) }
+];
+
+const ArticleRenderer = forwardRef<ArticleRendererHandle, ArticleRendererProps>(({ article, coverImageUrl, extractedImages, isStreaming = false, theme: baseTheme, initialDocument, onDocumentChange, onCopy, sectionAssistant, verification, onShowSource, sourceViewerOpen }, ref) => {
   const contentRef = useRef<HTMLDivElement>(null);
+  // The theme's stock labels and disclaimer in the article's language
+  const theme = localizeTheme(baseTheme, article);
   const [copyFeedback, setCopyFeedback] = useState(false);
-  const lastRangeRef = useRef<Range | null>(null);
+  const [missingImages, setMissingImages] = useState(0);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+
+  // The edited article. It is rebuilt only when a new article arrives, so cover or
+  // theme changes re-render it without losing edits.
+  const [sourceArticle, setSourceArticle] = useState(article);
+  const startingDocument = () => initialDocument ?? toDocument(article, extractedImages);
+  const [history, setHistory] = useState<History<ArticleDocument>>(() => createHistory(startingDocument()));
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [assistantStatus, setAssistantStatus] = useState<AssistantStatus | null>(null);
+  if (article !== sourceArticle) {
+    setSourceArticle(article);
+    setHistory(createHistory(startingDocument()));
+    setProposal(null);
+  }
+  const doc = history.present;
+
+  useEffect(() => {
+    if (!isStreaming) onDocumentChange?.(doc);
+  }, [doc, isStreaming]);
+
+  const activeBlockIdRef = useRef<string | null>(null); // where insertions go
+  const focusRequestRef = useRef<string | null>(null);
+  const dragIdRef = useRef<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const insertAtCursor = (block: ArticleBlock) => {
+    changeBlocks(blocks => insertBlockAfter(blocks, activeBlockIdRef.current, block));
+    activeBlockIdRef.current = block.id;
+  };
 
   // Expose manual insert
   useImperativeHandle(ref, () => ({
-    insertImage: (image: ExtractedImage) => {
-      insertImageAtCursor(image);
-    }
+    insertImage: (image: ExtractedImage) => insertAtCursor(figureBlock(image)),
+    insertTable: (image: ExtractedImage) => insertAtCursor(tableBlock(image)),
+    exportWechat: async () => (contentRef.current ? buildWechatExport(contentRef.current) : null),
+    getDocument: () => history.present
   }));
 
-  const insertImageAtCursor = (image: ExtractedImage) => {
-      const container = contentRef.current;
-      if (!container) return;
-      container.focus();
+  // Moves the caret into a block created by the last change.
+  useEffect(() => {
+    const id = focusRequestRef.current;
+    if (!id) return;
+    focusRequestRef.current = null;
+    contentRef.current?.querySelector<HTMLElement>(`[data-block-id="${id}"] [contenteditable="true"]`)?.focus();
+  }, [history]);
 
-      let range = lastRangeRef.current;
-      const selection = window.getSelection();
-      
-      if (selection && selection.rangeCount > 0 && container.contains(selection.anchorNode)) {
-        range = selection.getRangeAt(0);
-      }
-      if (!range) {
-         range = document.createRange();
-         range.selectNodeContents(container);
-         range.collapse(false);
-      }
+  const change = (update: (doc: ArticleDocument) => ArticleDocument) =>
+    setHistory(h => pushHistory(h, update(h.present)));
 
-      const wrapper = createImageNode(image);
-      
-      range.deleteContents();
-      range.insertNode(wrapper);
-      range.collapse(false);
-      
-      if (selection) {
-          selection.removeAllRanges();
-          selection.addRange(range);
-      }
-      lastRangeRef.current = range;
+  const changeBlocks = (update: (blocks: ArticleBlock[]) => ArticleBlock[]) =>
+    change(d => ({ ...d, blocks: update(d.blocks) }));
+
+  const patchBlock = (id: string, patch: Partial<ArticleBlock>) => changeBlocks(blocks => updateBlock(blocks, id, patch));
+
+  const addBlockAfter = (afterId: string | null, block: ArticleBlock) => {
+    focusRequestRef.current = block.id;
+    activeBlockIdRef.current = block.id;
+    changeBlocks(blocks => insertBlockAfter(blocks, afterId, block));
   };
 
-  const createImageNode = (image: ExtractedImage) => {
-      const wrapper = document.createElement('div');
-      wrapper.contentEditable = "false"; // Treat as a block
-      wrapper.style.margin = '24px 0';
-      wrapper.style.textAlign = 'center';
-      
-      const img = document.createElement('img');
-      img.src = image.src;
-      img.style.maxWidth = '100%';
-      img.style.borderRadius = '6px';
-      img.style.boxShadow = '0 4px 12px rgba(0,0,0,0.08)';
-      img.style.border = '1px solid #f0f0f0';
-      img.style.display = 'inline-block';
-      
-      const caption = document.createElement('div');
-      caption.innerText = `▼ ${image.label}`;
-      caption.style.fontSize = '13px';
-      caption.style.color = '#888';
-      caption.style.marginTop = '8px';
-      caption.style.fontFamily = 'Helvetica, Arial, sans-serif';
-      
-      wrapper.appendChild(img);
-      wrapper.appendChild(caption);
-      return wrapper;
+  const deleteBlock = (id: string, focusPrevious = false) => {
+    const idx = doc.blocks.findIndex(b => b.id === id);
+    if (focusPrevious && idx > 0) focusRequestRef.current = doc.blocks[idx - 1].id;
+    if (activeBlockIdRef.current === id) activeBlockIdRef.current = null;
+    changeBlocks(blocks => removeBlock(blocks, id));
   };
 
-  const handleSelectionChange = () => {
-    const selection = window.getSelection();
-    if (selection && selection.rangeCount > 0 && contentRef.current?.contains(selection.anchorNode)) {
-      lastRangeRef.current = selection.getRangeAt(0);
+  // Blurring first commits the block being typed in, so it becomes its own undo step.
+  const undo = () => {
+    (document.activeElement as HTMLElement | null)?.blur();
+    setHistory(undoHistory);
+  };
+
+  const redo = () => {
+    (document.activeElement as HTMLElement | null)?.blur();
+    setHistory(redoHistory);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isStreaming || !(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  // --- Drag to reorder ---------------------------------------------------------
+
+  const handleDragStart = (e: React.DragEvent<HTMLElement>, id: string) => {
+    dragIdRef.current = id;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+    const blockEl = e.currentTarget.closest('[data-block-id]');
+    if (blockEl) e.dataTransfer.setDragImage(blockEl, 0, 0);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, id: string) => {
+    if (!dragIdRef.current) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.id !== id || dropTarget.position !== position) setDropTarget({ id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    const dragged = dragIdRef.current;
+    if (dragged && dropTarget) {
+      changeBlocks(blocks => moveBlock(blocks, dragged, dropTarget.id, dropTarget.position));
     }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    dragIdRef.current = null;
+    setDropTarget(null);
   };
 
+  // --- Copy & export -----------------------------------------------------------
+
   const handleCopy = () => {
-    if (contentRef.current) {
-      const content = contentRef.current.innerHTML;
-      const blob = new Blob([content], { type: 'text/html' });
-      const plainText = contentRef.current.innerText;
-      const plainBlob = new Blob([plainText], { type: 'text/plain' });
-      
-      const item = new ClipboardItem({
-        'text/html': blob,
-        'text/plain': plainBlob,
-      });
+    if (!contentRef.current) return;
+    setCopyError(null);
+    // WeChat rejects embedded data: images, so they become "insert here" markers;
+    // the files themselves come from the ZIP download.
+    const exported = buildWechatExport(contentRef.current);
+    // The HTML goes in as a promise: Safari only allows the write during the click itself,
+    // not after awaiting the export
+    const item = new ClipboardItem({
+      'text/html': exported.then(result => new Blob([withImageSources(result, () => null)], { type: 'text/html' })),
+      'text/plain': new Blob([documentToPlainText(doc)], { type: 'text/plain' })
+    });
 
-      navigator.clipboard.write([item]).then(() => {
+    navigator.clipboard.write([item])
+      .then(async () => {
         setCopyFeedback(true);
+        setMissingImages((await exported).images.length);
         onCopy();
         setTimeout(() => setCopyFeedback(false), 2000);
+      })
+      .catch(e => {
+        console.error("Copy failed", e);
+        setCopyError(e instanceof Error ? e.message : String(e));
       });
+  };
+
+  const handleDownloadZip = async () => {
+    if (!contentRef.current) return;
+    const exported = await buildWechatExport(contentRef.current);
+    const zip = await createExportZip(exported, doc.title);
+    downloadBlob(zip, exportFileName(article, 'wechat.zip'));
+  };
+
+  // Markdown / DOCX / HTML are built from the edited blocks.
+  const handleExport = async (format: 'md' | 'md-zip' | 'docx' | 'html') => {
+    setExportMenuOpen(false);
+    const input: ArticleExportInput = { article, document: doc, coverImageUrl, theme };
+    switch (format) {
+      case 'md':
+        return downloadBlob(await exportMarkdown(input, 'data-uri'), exportFileName(article, 'md'));
+      case 'md-zip':
+        return downloadBlob(await exportMarkdown(input, 'files'), exportFileName(article, 'md.zip'));
+      case 'docx':
+        return downloadBlob(await exportDocx(input), exportFileName(article, 'docx'));
+      case 'html':
+        return downloadBlob(await exportStandaloneHtml(input), exportFileName(article, 'html'));
     }
   };
 
-  // Helper to parse **bold** text
-  const renderFormattedText = (text: string) => {
-    if (!text) return null;
-    const parts = text.split(/(\*\*.*?\*\*)/g);
-    return parts.map((part, i) => {
-      if (part.startsWith('**') && part.endsWith('**')) {
-        return <strong key={i} className="font-bold text-gray-900 mx-1">{part.slice(2, -2)}</strong>;
-      }
-      return <span key={i}>{part}</span>;
+  // --- Section assistant ---------------------------------------------------------
+
+  const sectionText = (headingId: string | undefined, blocks = doc.blocks): SectionText => {
+    const heading = blocks.find(b => b.id === headingId);
+    const section = heading ? sectionBlocks(blocks, heading.id) : [];
+    return {
+      heading: heading?.type === 'heading' ? heading.text : '',
+      paragraphs: section.flatMap(b => (b.type === 'paragraph' ? [b.text] : [])),
+      highlight: section.flatMap(b => (b.type === 'highlight' ? [b.text] : []))[0]
+    };
+  };
+
+  // The block's text still as it was when a request for it started
+  const unchangedText = (blocks: ArticleBlock[], id: string, text: string) =>
+    blocks.some(b => b.id === id && 'text' in b && b.text === text);
+
+  // One request at a time; starting another cancels the one running.
+  const runAssistant = async (anchorId: string, label: string, task: (signal: AbortSignal) => Promise<Omit<Proposal, 'anchorId' | 'label'>>) => {
+    if (assistantStatus && 'controller' in assistantStatus) assistantStatus.controller.abort();
+    const controller = new AbortController();
+    setProposal(null);
+    setAssistantStatus({ anchorId, label, controller });
+    try {
+      const result = await task(controller.signal);
+      setProposal({ anchorId, label, ...result });
+      setAssistantStatus(null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setAssistantStatus({ anchorId, error: classifyError(e) });
+    }
+  };
+
+  const regenerateSection = (headingId: string) => {
+    const section = sectionText(headingId);
+    const snapshot = JSON.stringify(section);
+    runAssistant(headingId, 'Regenerated section', async signal => {
+      const result = await sectionAssistant!.regenerateSection(section, signal);
+      return {
+        before: [...section.paragraphs, section.highlight].filter(Boolean).join('\n\n'),
+        after: [...result.paragraphs, result.highlight ?? section.highlight].filter(Boolean).join('\n\n'),
+        apply: blocks => JSON.stringify(sectionText(headingId, blocks)) === snapshot
+          ? replaceSectionText(blocks, headingId, result.paragraphs, result.highlight)
+          : null
+      };
     });
   };
 
-  // Helper to find matching image
-  const getMatchingFigure = (label: string | undefined) => {
-      if (!label) return null;
-      // Normalize: "Figure 1" -> "figure 1"
-      const normalized = label.toLowerCase().replace('.', '').trim();
-      return extractedImages.find(img => 
-          img.label.toLowerCase().includes(normalized) || 
-          normalized.includes(img.label.toLowerCase())
+  // Where the selection sits in the paragraph's markup, or null when nothing in its text is selected
+  const selectedRange = (block: Extract<ArticleBlock, { type: 'paragraph' }>) => {
+    const selection = window.getSelection();
+    const textEl = contentRef.current?.querySelector(`[data-block-id="${block.id}"] [contenteditable="true"]`);
+    if (!selection?.rangeCount || selection.isCollapsed || !textEl) return null;
+    const range = selection.getRangeAt(0);
+    if (!textEl.contains(range.startContainer) || !textEl.contains(range.endContainer)) return null;
+    // The DOM must still show this text for its offsets to mean anything
+    if (textEl.textContent !== parseBoldSegments(block.text).map(s => s.text).join('')) return null;
+    const lead = document.createRange();
+    lead.selectNodeContents(textEl);
+    lead.setEnd(range.startContainer, range.startOffset);
+    const selected = range.toString();
+    const start = lead.toString().length + (selected.length - selected.trimStart().length);
+    const end = lead.toString().length + selected.trimEnd().length;
+    return end > start ? markupRange(block.text, start, end) : null;
+  };
+
+  // Rewrites the text selected inside the paragraph, or all of it.
+  const rewriteParagraph = (block: Extract<ArticleBlock, { type: 'paragraph' }>, style: RewriteStyle) => {
+    const range = selectedRange(block);
+    const passage = range ? block.text.slice(range.start, range.end) : block.text;
+    const splice = (text: string, at: number, rewritten: string) => text.slice(0, at) + rewritten + text.slice(at + passage.length);
+    runAssistant(block.id, `${REWRITE_STYLES[style].label}${range ? ' (selection)' : ''}`, async signal => {
+      const rewritten = await sectionAssistant!.rewritePassage(sectionText(sectionHeadingOf(doc.blocks, block.id)?.id), passage, style, signal);
+      const after = range ? splice(block.text, range.start, rewritten) : rewritten;
+      return {
+        before: block.text,
+        after,
+        apply: blocks => {
+          if (unchangedText(blocks, block.id, block.text)) return updateBlock(blocks, block.id, { text: after });
+          // Edited meanwhile: a rewritten selection still fits if the passage is where it was, or appears just once
+          const current = blocks.find(b => b.id === block.id);
+          if (!range || current?.type !== 'paragraph') return null;
+          const at = current.text.slice(range.start, range.end) === passage ? range.start
+            : current.text.indexOf(passage) === current.text.lastIndexOf(passage) ? current.text.indexOf(passage) : -1;
+          return at >= 0 ? updateBlock(blocks, block.id, { text: splice(current.text, at, rewritten) }) : null;
+        }
+      };
+    });
+  };
+
+  const expandHighlight = (block: Extract<ArticleBlock, { type: 'highlight' }>) => {
+    const section = sectionText(sectionHeadingOf(doc.blocks, block.id)?.id);
+    runAssistant(block.id, 'Expanded highlight', async signal => {
+      const after = await sectionAssistant!.expandHighlight({ ...section, highlight: block.text }, signal);
+      return {
+        before: block.text,
+        after,
+        apply: blocks => (unchangedText(blocks, block.id, block.text) ? updateBlock(blocks, block.id, { text: after }) : null)
+      };
+    });
+  };
+
+  // Applied to the text as it is now; edits made while the request ran are never overwritten.
+  const acceptProposal = () => {
+    if (!proposal) return;
+    const next = proposal.apply(doc.blocks);
+    if (!next) {
+      setProposal({ ...proposal, stale: true });
+      return;
+    }
+    changeBlocks(() => next);
+    setProposal(null);
+  };
+
+  const assistantActions = (block: ArticleBlock) => {
+    const button = (label: string, onClick: () => void, title?: string) => (
+      <button
+        key={label}
+        onMouseDown={(e) => e.preventDefault()} // keep the text selection for passage rewrites
+        onClick={onClick}
+        title={title}
+        className="px-1.5 py-0.5 rounded border border-gray-200 bg-white text-gray-500 hover:border-indigo-300 hover:text-indigo-700 shadow-sm"
+      >
+        {label}
+      </button>
+    );
+    switch (block.type) {
+      case 'heading':
+        return [button('↻ Regenerate section', () => regenerateSection(block.id), 'Write this section again from the paper; figures and other sections stay')];
+      case 'paragraph':
+        return (Object.keys(REWRITE_STYLES) as RewriteStyle[]).map(style =>
+          button(REWRITE_STYLES[style].label, () => rewriteParagraph(block, style), 'Rewrites the selected text, or the whole paragraph')
+        );
+      case 'highlight':
+        return [button('⤢ Expand', () => expandHighlight(block))];
+      default:
+        return [];
+    }
+  };
+
+  const renderAssistantPanel = (blockId: string) => {
+    if (assistantStatus?.anchorId === blockId) {
+      return 'controller' in assistantStatus ? (
+        <div data-export="remove" className="my-2 flex items-center gap-2 text-xs text-indigo-600 animate-pulse">
+          {assistantStatus.label}...
+          <button onClick={() => { assistantStatus.controller.abort(); setAssistantStatus(null); }} className="text-gray-500 hover:text-red-500">Cancel</button>
+        </div>
+      ) : (
+        <div data-export="remove" onClick={() => setAssistantStatus(null)} title="Dismiss">
+          <ErrorNotice error={assistantStatus.error} compact />
+        </div>
       );
+    }
+    if (proposal?.anchorId !== blockId) return null;
+    return (
+      <div data-export="remove" className="my-2 p-3 rounded-lg border border-indigo-200 bg-indigo-50 text-sm font-sans">
+        <div className="text-[10px] uppercase font-bold text-indigo-700 mb-1">{proposal.label}</div>
+        <div className="whitespace-pre-wrap leading-relaxed text-gray-700">
+          {diffText(proposal.before.replace(/\*\*/g, ''), proposal.after.replace(/\*\*/g, '')).map((part, i) =>
+            part.type === 'same' ? <span key={i}>{part.text}</span>
+              : part.type === 'added' ? <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                : <del key={i} className="bg-red-100 text-red-600">{part.text}</del>
+          )}
+        </div>
+        {proposal.stale && (
+          <p className="mt-2 text-xs text-amber-700">The text was edited while this was being written, so it no longer applies. Reject it and ask again.</p>
+        )}
+        <div className="flex gap-2 mt-2">
+          <button onClick={acceptProposal} disabled={proposal.stale} className="px-3 py-1 rounded bg-indigo-600 text-white text-xs font-semibold hover:bg-indigo-700 disabled:opacity-50">Accept</button>
+          <button onClick={() => setProposal(null)} className="px-3 py-1 rounded bg-white border border-gray-300 text-gray-600 text-xs hover:bg-gray-50">Reject</button>
+        </div>
+      </div>
+    );
+  };
+
+  // Fact check marks: quiet for what the paper contains, amber for what it does not.
+  const renderVerification = (block: ArticleBlock) => {
+    const checks = verification ? checksForBlock(verification, block) : [];
+    if (checks.length === 0) return null;
+    return (
+      <div data-export="remove" className="mt-1 mb-3 flex flex-wrap gap-1 text-[10px] font-sans">
+        {checks.map(check => check.page !== null ? (
+          <span key={check.text} title={check.excerpt} className="px-1.5 py-0.5 rounded bg-green-50 text-green-700 border border-green-200">
+            ✓ {check.text} · p.{check.page}
+          </span>
+        ) : (
+          <span key={check.text} title="Not found in the PDF text" className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-800 border border-amber-300 font-semibold">
+            ⚠ {check.text}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  // A paragraph's passages for the PDF viewer. Clicks pass a copy, so the viewer
+  // scrolls back even to the passage it already shows.
+  const blockSources = (block: ArticleBlock) =>
+    !isStreaming && onShowSource && block.type === 'paragraph' && block.sources?.length ? block.sources : null;
+
+  // --- Blocks ------------------------------------------------------------------
+
+  const headerStyles = sectionHeaderStyles(theme);
+  const numbers = headingNumbers(doc.blocks);
+  const editable = !isStreaming;
+  const byline = articleByline(article);
+
+  // Text fields share the commit/keyboard wiring; Enter opens a new paragraph below.
+  const textProps = (block: ArticleBlock, text: string, onCommit: (text: string) => void) => ({
+    text,
+    editable,
+    onCommit,
+    onFocus: () => { activeBlockIdRef.current = block.id; },
+    onEnter: () => addBlockAfter(block.id, { id: newBlockId(), type: 'paragraph', text: '' }),
+    onBackspaceEmpty: block.type === 'paragraph' ? () => deleteBlock(block.id, true) : undefined
+  });
+
+  const renderBlock = (block: ArticleBlock) => {
+    switch (block.type) {
+      case 'heading': {
+        const number = formatSectionNumber(numbers.get(block.id)!);
+        const title = textProps(block, block.text, text => patchBlock(block.id, { text }));
+        return headerStyles.container ? (
+          <div data-export="section-header" style={headerStyles.container}>
+            <span style={headerStyles.number}>{number}</span>
+            <EditableText as="h2" style={headerStyles.title} {...title} />
+          </div>
+        ) : (
+          <h2 style={headerStyles.title}>
+            <span style={headerStyles.number}>{number}</span>
+            <EditableText as="span" {...title} />
+          </h2>
+        );
+      }
+      case 'terms':
+        return (
+          <div style={{ marginBottom: '12px' }}>
+            {block.terms.map((term, tIdx) => (
+              <EditableText
+                key={`${tIdx}-${term}`}
+                as="span"
+                style={{
+                  display: 'inline-block',
+                  backgroundColor: theme.colors.termBackground,
+                  color: theme.colors.primary,
+                  fontSize: '12px',
+                  padding: '2px 8px',
+                  borderRadius: '4px',
+                  marginRight: '6px',
+                  marginBottom: '4px'
+                }}
+                {...textProps(block, term, text => patchBlock(block.id, {
+                  terms: block.terms.map((t, i) => (i === tIdx ? text : t)).filter(Boolean)
+                }))}
+                onEnter={undefined}
+              />
+            ))}
+          </div>
+        );
+      case 'paragraph': {
+        const paragraphStyle: React.CSSProperties = { marginBottom: '16px', minHeight: '1.8em', fontSize: `${theme.bodyFontSize}px`, lineHeight: '1.8', textAlign: 'justify' };
+        const alternating = block.original !== undefined && doc.bilingualLayout !== 'side-by-side';
+        const text = (
+          <EditableText
+            as="p"
+            style={{ ...paragraphStyle, marginBottom: alternating ? '6px' : '16px' }}
+            {...textProps(block, block.text, text => patchBlock(block.id, { text }))}
+          />
+        );
+        if (block.original === undefined) return text;
+        // Bilingual: the paper's own wording, quieter, under or beside the translation
+        const original = (
+          <EditableText
+            as="p"
+            style={{ ...paragraphStyle, fontSize: `${theme.bodyFontSize - 2}px`, lineHeight: '1.7', color: theme.colors.muted, textAlign: 'left' }}
+            {...textProps(block, block.original, original => patchBlock(block.id, { original }))}
+            onBackspaceEmpty={undefined}
+          />
+        );
+        return alternating ? (
+          <>{text}{original}</>
+        ) : (
+          // A table, not flex: the WeChat export flattens flex and grid into plain blocks
+          <table style={{ width: '100%', tableLayout: 'fixed', borderCollapse: 'collapse' }}>
+            <tbody>
+              <tr>
+                <td style={{ width: '50%', verticalAlign: 'top', padding: '0 12px 0 0' }}>{text}</td>
+                <td style={{ width: '50%', verticalAlign: 'top', padding: '0 0 0 12px', borderLeft: `1px solid ${theme.colors.termBackground}` }}>{original}</td>
+              </tr>
+            </tbody>
+          </table>
+        );
+      }
+      case 'figure':
+        return (
+          <div style={{ margin: '20px 0', textAlign: 'center' }}>
+            <img
+              src={block.src}
+              style={{
+                maxWidth: '100%',
+                borderRadius: '6px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.08)',
+                border: '1px solid #f0f0f0',
+                display: 'inline-block'
+              }}
+            />
+            <div style={{ fontSize: '13px', color: theme.colors.muted, marginTop: '8px' }}>
+              <span>▼ </span>
+              <EditableText as="span" {...textProps(block, block.caption, caption => patchBlock(block.id, { caption }))} />
+            </div>
+          </div>
+        );
+      case 'table':
+        return (
+          <div style={{ margin: '20px 0' }}>
+            <div style={{ fontSize: '13px', color: theme.colors.muted, marginBottom: '8px', textAlign: 'center' }}>
+              <span>▼ </span>
+              <EditableText as="span" {...textProps(block, block.caption, caption => patchBlock(block.id, { caption }))} />
+            </div>
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px', lineHeight: '1.5' }}>
+                <tbody>
+                  {block.rows.map((row, rIdx) => (
+                    <tr key={rIdx} style={{ backgroundColor: rIdx === 0 ? theme.colors.termBackground : undefined }}>
+                      {row.map((cell, cIdx) => (
+                        <EditableText
+                          key={cIdx}
+                          as={rIdx === 0 ? 'th' : 'td'}
+                          style={{
+                            padding: '6px 8px',
+                            borderBottom: `1px solid ${rIdx === 0 ? theme.colors.primary : '#eeeeee'}`,
+                            textAlign: cIdx === 0 ? 'left' : 'center',
+                            color: rIdx === 0 ? theme.colors.primary : undefined,
+                            fontWeight: rIdx === 0 ? 'bold' : 'normal'
+                          }}
+                          {...textProps(block, cell, text => patchBlock(block.id, {
+                            rows: block.rows.map((r, i) => (i === rIdx ? r.map((c, j) => (j === cIdx ? text : c)) : r))
+                          }))}
+                          onEnter={undefined}
+                        />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      case 'highlight':
+        return (
+          <div style={highlightBoxStyle(theme)}>
+            <strong>{theme.highlightLabel}</strong> <EditableText as="span" {...textProps(block, block.text, text => patchBlock(block.id, { text }))} />
+          </div>
+        );
+      case 'quote':
+        return block.summary ? (
+          <section style={{
+            backgroundColor: theme.colors.summaryBackground,
+            padding: '16px',
+            borderRadius: '6px',
+            marginBottom: '32px',
+            fontSize: '15px',
+            borderLeft: `4px solid ${theme.colors.primary}`
+          }}>
+            <p style={{ margin: 0 }}>
+              <strong>{theme.summaryLabel}</strong><EditableText as="span" {...textProps(block, block.text, text => patchBlock(block.id, { text }))} />
+            </p>
+          </section>
+        ) : (
+          <EditableText
+            as="div"
+            style={{ margin: '16px 0', padding: '4px 12px', borderLeft: `3px solid ${theme.colors.muted}`, color: theme.colors.muted, fontStyle: 'italic', minHeight: '1.8em' }}
+            {...textProps(block, block.text, text => patchBlock(block.id, { text }))}
+          />
+        );
+      case 'paper-card':
+        return (
+          <div style={{ border: `1px solid ${theme.colors.termBackground}`, borderTop: `3px solid ${theme.colors.primary}`, borderRadius: '6px', padding: '16px', margin: '24px 0' }}>
+            <EditableText
+              as="h2"
+              style={{ fontSize: '17px', fontWeight: 'bold', margin: '0 0 4px', fontFamily: theme.fonts.heading }}
+              {...textProps(block, block.title, title => patchBlock(block.id, { title }))}
+            />
+            <EditableText
+              as="div"
+              style={{ fontSize: '13px', color: theme.colors.accent, marginBottom: '12px' }}
+              {...textProps(block, block.venue, venue => patchBlock(block.id, { venue }))}
+            />
+            <EditableText
+              as="p"
+              style={{ fontSize: `${theme.bodyFontSize}px`, lineHeight: '1.8', textAlign: 'justify', marginBottom: '12px' }}
+              {...textProps(block, block.summary, summary => patchBlock(block.id, { summary }))}
+            />
+            {block.figure && (
+              <div style={{ textAlign: 'center' }}>
+                <img src={block.figure.src} style={{ maxWidth: '100%', borderRadius: '6px', border: '1px solid #f0f0f0', display: 'inline-block' }} />
+                <div style={{ fontSize: '13px', color: theme.colors.muted, marginTop: '8px' }}>▼ {block.figure.caption}</div>
+              </div>
+            )}
+            {block.link && <p style={{ fontSize: '12px', color: theme.colors.muted, marginTop: '8px', wordBreak: 'break-all' }}>原文链接：{block.link}</p>}
+          </div>
+        );
+    }
+  };
+
+  const dropShadow = (id: string) => {
+    if (dropTarget?.id !== id) return undefined;
+    return dropTarget.position === 'before' ? `inset 0 2px 0 ${theme.colors.primary}` : `inset 0 -2px 0 ${theme.colors.primary}`;
   };
 
   return (
     <div className="flex flex-col h-full">
       <div className="flex justify-between items-center mb-4 px-2">
         <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider">
-            Preview & Edit <span className="text-xs font-normal text-gray-400 ml-2">(Click anywhere to edit)</span>
+            {isRoundup(article) ? 'Roundup' : 'Preview'} & Edit {isStreaming ? (
+              <span className="text-xs font-normal text-wechat-primary ml-2 animate-pulse">(Writing...)</span>
+            ) : (
+              <span className="text-xs font-normal text-gray-400 ml-2">(Click to edit, drag ⠿ to reorder)</span>
+            )}
         </h2>
-        <button
-          onClick={handleCopy}
-          className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 flex items-center gap-2 ${
-            copyFeedback 
-              ? 'bg-green-100 text-green-700 ring-2 ring-green-500' 
-              : 'bg-wechat-primary text-white hover:bg-green-600 shadow-md hover:shadow-lg'
-          }`}
-        >
-          {copyFeedback ? (
-            <>
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
-              已复制 (Copied)
-            </>
-          ) : (
-            <>
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3"></path></svg>
-              复制全文
-            </>
+        <div className="flex items-center gap-2">
+          {onShowSource && !sourceViewerOpen && !isRoundup(article) && (
+            <button
+              onClick={() => onShowSource(null)}
+              disabled={isStreaming}
+              title="Show the original PDF beside the article; click a paragraph to find its source"
+              className="h-8 px-3 rounded-full bg-white border border-gray-300 text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            >
+              📄 PDF
+            </button>
           )}
-        </button>
+          {doc.bilingualLayout && (
+            <select
+              value={doc.bilingualLayout}
+              onChange={(e) => change(d => ({ ...d, bilingualLayout: e.target.value as BilingualLayout }))}
+              disabled={isStreaming}
+              title="Layout of the original text"
+              className="h-8 px-2 rounded-full bg-white border border-gray-300 text-xs text-gray-600"
+            >
+              <option value="alternating">双语 · 交替</option>
+              <option value="side-by-side">双语 · 并排</option>
+            </select>
+          )}
+          <button onClick={undo} disabled={isStreaming || history.past.length === 0} title="Undo (Ctrl+Z)" className="w-8 h-8 rounded-full bg-white border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40">↶</button>
+          <button onClick={redo} disabled={isStreaming || history.future.length === 0} title="Redo (Ctrl+Shift+Z)" className="w-8 h-8 rounded-full bg-white border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40">↷</button>
+          <div className="relative">
+            <button
+              onClick={() => setExportMenuOpen(!exportMenuOpen)}
+              disabled={isStreaming}
+              className="px-3 py-2 rounded-full text-sm font-semibold bg-white text-gray-600 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              导出 ▾
+            </button>
+            {exportMenuOpen && (
+              <div className="absolute right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1 text-sm text-gray-700">
+                <button onClick={() => { setExportMenuOpen(false); handleDownloadZip(); }} className="w-full text-left px-3 py-2 hover:bg-gray-50">WeChat HTML + images (ZIP)</button>
+                <button onClick={() => handleExport('md')} className="w-full text-left px-3 py-2 hover:bg-gray-50">Markdown (images inlined)</button>
+                <button onClick={() => handleExport('md-zip')} className="w-full text-left px-3 py-2 hover:bg-gray-50">Markdown + image files (ZIP)</button>
+                <button onClick={() => handleExport('docx')} className="w-full text-left px-3 py-2 hover:bg-gray-50">Word (DOCX)</button>
+                <button onClick={() => handleExport('html')} className="w-full text-left px-3 py-2 hover:bg-gray-50">Standalone HTML page</button>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={handleCopy}
+            disabled={isStreaming}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-300 flex items-center gap-2 disabled:opacity-50 ${
+              copyFeedback
+                ? 'bg-green-100 text-green-700 ring-2 ring-green-500'
+                : 'bg-wechat-primary text-white hover:bg-green-600 shadow-md hover:shadow-lg'
+            }`}
+          >
+            {copyFeedback ? (
+              <>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
+                已复制 (Copied)
+              </>
+            ) : (
+              <>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3"></path></svg>
+                复制全文
+              </>
+            )}
+          </button>
+        </div>
       </div>
+      {copyError && (
+        <p className="text-xs text-red-600 mb-2 px-2">Copy failed: {copyError}. Use the ZIP export instead.</p>
+      )}
+      {missingImages > 0 && (
+        <p className="text-xs text-amber-600 mb-2 px-2">
+          {missingImages} embedded image(s) were replaced with 【此处插入图片】 markers — upload them from the ZIP in the WeChat editor.
+        </p>
+      )}
+      {!isStreaming && (
+        <div className="flex flex-wrap items-center gap-1 mb-2 px-2 text-xs text-gray-500">
+          <span className="mr-1">Add below cursor:</span>
+          {NEW_BLOCKS.map(({ type, label, create }) => (
+            <button
+              key={type}
+              onMouseDown={(e) => e.preventDefault()} // keep the caret's block as the insertion point
+              onClick={() => addBlockAfter(activeBlockIdRef.current, create())}
+              className="px-2 py-1 rounded border border-gray-200 bg-white hover:border-green-300 hover:text-green-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
 
       <div className="flex-1 overflow-y-auto bg-gray-100 p-4 md:p-8 rounded-xl border border-gray-200 shadow-inner">
-        <div 
+        <div
           ref={contentRef}
-          contentEditable={true}
-          suppressContentEditableWarning={true}
-          onMouseUp={handleSelectionChange}
-          onKeyUp={handleSelectionChange}
-          onBlur={handleSelectionChange}
-          className="mx-auto max-w-[500px] bg-white min-h-[800px] shadow-sm text-[#333333] font-sans leading-relaxed outline-none focus:ring-2 focus:ring-green-100 focus:ring-offset-2 transition-shadow"
-          style={{ padding: '20px' }}
+          tabIndex={-1}
+          onKeyDown={handleKeyDown}
+          className="mx-auto max-w-[500px] bg-white min-h-[800px] shadow-sm leading-relaxed outline-none"
+          style={{ padding: '20px', color: theme.colors.text, fontFamily: theme.fonts.body }}
         >
           {/* Header */}
-          <h1 style={{ fontSize: '22px', fontWeight: 'bold', marginBottom: '10px', lineHeight: '1.4' }}>
-            {article.title}
-          </h1>
-          
-          <div style={{ fontSize: '14px', color: '#888888', marginBottom: '20px' }}>
-            <span>{article.meta.authors.split(',')[0]} 等</span>
-            <span style={{ marginLeft: '10px', color: '#576b95' }}>{article.meta.journal || '学术前沿'}</span>
+          <EditableText
+            as="h1"
+            text={doc.title}
+            editable={editable}
+            onCommit={(title) => change(d => ({ ...d, title }))}
+            style={{ fontSize: '22px', fontWeight: 'bold', marginBottom: '10px', lineHeight: '1.4', fontFamily: theme.fonts.heading }}
+          />
+
+          <div style={{ fontSize: '14px', color: theme.colors.muted, marginBottom: '20px' }}>
+            <span>{byline.author}</span>
+            <span style={{ marginLeft: '10px', color: theme.colors.accent }}>{byline.venue}</span>
           </div>
 
           {/* Cover Image */}
+          {/* Preview only: WeChat shows the cover itself, uploaded separately from the body images */}
           {coverImageUrl ? (
-             <img src={coverImageUrl} alt="Cover" style={{ width: '100%', borderRadius: '8px', marginBottom: '24px', display: 'block' }} />
+             <img data-export="remove" src={coverImageUrl} alt="Cover" style={{ width: '100%', borderRadius: '8px', marginBottom: '24px', display: 'block' }} />
           ) : (
-            <div style={{ 
-              width: '100%', 
-              height: '200px', 
-              backgroundColor: '#f5f5f5', 
-              borderRadius: '8px', 
-              display: 'flex', 
-              alignItems: 'center', 
-              justifyContent: 'center', 
+            <div data-export="remove" style={{
+              width: '100%',
+              height: '200px',
+              backgroundColor: '#f5f5f5',
+              borderRadius: '8px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
               marginBottom: '24px',
               color: '#999',
               border: '1px dashed #ddd',
@@ -201,133 +799,89 @@ const ArticleRenderer = forwardRef<ArticleRendererHandle, ArticleRendererProps>(
             </div>
           )}
 
-          {/* Summary Box */}
-          <section style={{ 
-            backgroundColor: '#f7f7f7', 
-            padding: '16px', 
-            borderRadius: '6px', 
-            marginBottom: '32px',
-            fontSize: '15px',
-            borderLeft: '4px solid #07C160'
-          }}>
-            <p style={{ margin: 0 }}><strong>摘要：</strong>{article.summary}</p>
-          </section>
-
-          {/* Dynamic Sections */}
-          {article.sections.map((section, idx) => {
-            const matchingFig = getMatchingFigure(section.suggestedFigureLocation);
-
-            return (
-                <div key={idx} style={{ marginBottom: '40px' }}>
-                {/* Section Header */}
-                <div style={{ display: 'flex', alignItems: 'center', marginBottom: '16px' }}>
-                    <span style={{ 
-                    fontSize: '36px', 
-                    fontWeight: '900', 
-                    color: '#eeeeee', 
-                    marginRight: '-10px',
-                    zIndex: 0,
-                    fontFamily: 'Helvetica, Arial, sans-serif',
-                    userSelect: 'none'
-                    }} contentEditable={false}>
-                    {String(idx + 1).padStart(2, '0')}
-                    </span>
-                    <h2 style={{ 
-                    fontSize: '18px', 
-                    fontWeight: 'bold', 
-                    borderBottom: '2px solid #07C160', 
-                    paddingBottom: '4px',
-                    zIndex: 1,
-                    margin: 0,
-                    paddingLeft: '12px'
-                    }}>
-                    {section.title.replace(/^\d+\s*/, '')}
-                    </h2>
+          {/* Blocks */}
+          {doc.blocks.map(block => (
+            <div
+              key={block.id}
+              data-block-id={block.id}
+              className="group"
+              onDragOver={(e) => handleDragOver(e, block.id)}
+              onDrop={handleDrop}
+              onClick={sourceViewerOpen && blockSources(block)
+                ? (e) => { if (!(e.target as HTMLElement).closest('button')) onShowSource!([...blockSources(block)!]); }
+                : undefined}
+              style={{
+                position: 'relative',
+                marginTop: block.type === 'heading' && numbers.get(block.id)! > 0 ? '40px' : undefined,
+                boxShadow: dropShadow(block.id)
+              }}
+            >
+              {editable && (
+                <div
+                  data-export="remove"
+                  className="absolute -left-9 top-0 flex flex-col items-center opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 text-xs select-none"
+                >
+                  <span
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, block.id)}
+                    onDragEnd={handleDragEnd}
+                    title="Drag to move"
+                    className="cursor-grab hover:text-gray-700 px-1"
+                  >
+                    ⠿
+                  </span>
+                  <button onClick={() => deleteBlock(block.id)} title="Delete block" className="hover:text-red-500 px-1">×</button>
                 </div>
-
-                {/* English Terms Tags */}
-                {section.englishTerms && section.englishTerms.length > 0 && (
-                    <div style={{ marginBottom: '12px' }}>
-                    {section.englishTerms.map((term, tIdx) => (
-                        <span key={tIdx} style={{ 
-                        display: 'inline-block', 
-                        backgroundColor: '#e6f7ef', 
-                        color: '#07C160', 
-                        fontSize: '12px', 
-                        padding: '2px 8px', 
-                        borderRadius: '4px', 
-                        marginRight: '6px',
-                        marginBottom: '4px'
-                        }}>
-                        {term}
-                        </span>
-                    ))}
-                    </div>
-                )}
-
-                {/* Content */}
-                <div style={{ fontSize: '16px', lineHeight: '1.8', textAlign: 'justify' }}>
-                    {section.content.split('\n').map((para, pIdx) => (
-                        para.trim() ? <p key={pIdx} style={{ marginBottom: '16px' }}>{renderFormattedText(para)}</p> : null
-                    ))}
+              )}
+              {blockSources(block) && (
+                <div data-export="remove" className="absolute -right-9 top-0 flex flex-col items-center opacity-0 group-hover:opacity-100 transition-opacity text-[10px] select-none">
+                  {Array.from(new Set(blockSources(block)!.map(s => s.page))).map(page => (
+                    <button
+                      key={page}
+                      onClick={(e) => { e.stopPropagation(); onShowSource!(blockSources(block)!.filter(s => s.page === page)); }}
+                      title="Show the source passage in the PDF"
+                      className="px-1 text-gray-400 hover:text-indigo-600"
+                    >
+                      p.{page}
+                    </button>
+                  ))}
                 </div>
-
-                {/* AUTOMATIC FIGURE INSERTION */}
-                {matchingFig && (
-                    <div contentEditable={false} style={{ margin: '20px 0', textAlign: 'center' }}>
-                        <img 
-                            src={matchingFig.src} 
-                            style={{ 
-                                maxWidth: '100%', 
-                                borderRadius: '6px', 
-                                boxShadow: '0 4px 12px rgba(0,0,0,0.08)',
-                                border: '1px solid #f0f0f0' 
-                            }} 
-                        />
-                        <div style={{ fontSize: '13px', color: '#888', marginTop: '8px' }}>
-                             ▼ {matchingFig.label}
-                        </div>
-                    </div>
-                )}
-
-                {/* Highlight / Key Takeaway */}
-                {section.highlight && (
-                    <div style={{ 
-                    marginTop: '16px', 
-                    padding: '12px', 
-                    border: '1px dashed #576b95', 
-                    borderRadius: '6px',
-                    color: '#576b95',
-                    fontSize: '14px',
-                    backgroundColor: '#f4f6f9'
-                    }}>
-                    <strong>💡 创新点与思考：</strong> {renderFormattedText(section.highlight)}
-                    </div>
-                )}
+              )}
+              {editable && sectionAssistant && (
+                <div data-export="remove" className="absolute right-0 -top-3 z-10 hidden group-hover:flex gap-1 text-[10px]">
+                  {assistantActions(block)}
                 </div>
-            );
-          })}
+              )}
+              {renderBlock(block)}
+              {renderVerification(block)}
+              {renderAssistantPanel(block.id)}
+            </div>
+          ))}
 
           {/* Footer / Disclaimer */}
           <hr style={{ border: 'none', borderTop: '1px solid #eee', margin: '40px 0 20px 0' }} />
-          
-          <div style={{ fontSize: '13px', color: '#888', lineHeight: '1.6', backgroundColor: '#f9f9f9', padding: '15px', borderRadius: '8px' }}>
-            <p style={{ marginBottom: '8px' }}>
-              <strong>原文标题：</strong> {article.title}
-            </p>
-            <p style={{ marginBottom: '8px' }}>
-              <strong>作者单位：</strong> {article.meta.authors}
-            </p>
-            {article.meta.link && (
-               <p style={{ marginBottom: '8px', wordBreak: 'break-all' }}>
-                 <strong>原文链接：</strong> {article.meta.link}
-               </p>
+
+          <div style={{ fontSize: '13px', color: theme.colors.muted, lineHeight: '1.6', backgroundColor: theme.colors.footerBackground, padding: '15px', borderRadius: '8px' }}>
+            {sourceEntries(article).map(({ label, value }) => (
+              <p key={label} style={{ marginBottom: '8px', wordBreak: 'break-all' }}>
+                <strong>{label}</strong> {value}
+              </p>
+            ))}
+            {theme.footerText && (
+              <p style={{ marginTop: '16px', fontStyle: 'italic' }}>
+                {theme.footerText}
+              </p>
             )}
-            <p style={{ marginTop: '16px', fontStyle: 'italic' }}>
-              本文仅为笔者对论文内容的理解，不代表原论文的官方观点，转载请注明出处。
-            </p>
           </div>
 
+          {/* QR Code Block */}
+          {theme.qrCode && (
+            <div style={{ marginTop: '24px', textAlign: 'center' }}>
+              <img src={theme.qrCode.imageUrl} alt="QR code" style={{ width: '120px', height: '120px', display: 'inline-block' }} />
+              <p style={{ fontSize: '13px', color: theme.colors.muted, marginTop: '8px' }}>{theme.qrCode.caption}</p>
+            </div>
+          )}
+
         </div>
       </div>
     </div>
@@ -0,0 +1,175 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { GeneratedArticle, ProcessingState } from '../types';
+import { BatchJob, BatchJobRunner, BatchQueue, createBatchQueue } from '../services/batchQueue';
+import { GenerateArticleOptions, generateArticleFromPdf } from '../services/geminiService';
+import { Project, newProjectId, saveProject } from '../services/projectStore';
+import { ImageSettings } from '../utils/imageProcessing';
+import { extractImagesFromPdf } from '../utils/pdfUtils';
+import ErrorNotice from './ErrorNotice';
+
+export interface BatchQueuePanelHandle {
+  enqueue: (files: File[]) => void;
+}
+
+// What each batch job is generated with, as picked in the sidebar.
+type BatchGenerationOptions = Pick<GenerateArticleOptions, 'mode' | 'profile' | 'language' | 'bilingual'>;
+
+interface BatchQueuePanelProps {
+  generation: BatchGenerationOptions;
+  imageSettings: ImageSettings;
+  onOpen: (project: Project) => void;
+  onProjectSaved: () => void;
+}
+
+// Batch jobs always produce single-paper articles.
+type PaperProject = Project & { article: GeneratedArticle };
+
+const STATUS_BADGES: Record<ProcessingState, { label: string; className: string }> = {
+  [ProcessingState.IDLE]: { label: 'Queued', className: 'bg-gray-100 text-gray-600' },
+  [ProcessingState.READING]: { label: 'Reading', className: 'bg-blue-100 text-blue-700' },
+  [ProcessingState.GENERATING]: { label: 'Writing', className: 'bg-blue-100 text-blue-700' },
+  [ProcessingState.COMPLETE]: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  [ProcessingState.ERROR]: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
+
+// Same steps as a single upload, but the result goes straight into the project library.
+const processPaper = (generation: BatchGenerationOptions, imageSettings: ImageSettings): BatchJobRunner<PaperProject> => async (file, signal, onProgress) => {
+  onProgress(ProcessingState.READING, 'Scanning PDF for figures...');
+  let figures: Awaited<ReturnType<typeof extractImagesFromPdf>> = [];
+  try {
+    figures = await extractImagesFromPdf(file, {
+      signal,
+      onProgress: (page, numPages) => onProgress(ProcessingState.READING, `Scanning page ${page}/${numPages} for figures...`),
+      imageSettings
+    });
+  } catch (err) {
+    console.warn(`Figure extraction failed for ${file.name}`, err);
+  }
+  signal.throwIfAborted();
+
+  onProgress(ProcessingState.GENERATING, 'Generating article...');
+  const article = await generateArticleFromPdf(file, (msg) => onProgress(ProcessingState.GENERATING, msg), { ...generation, signal });
+
+  const now = Date.now();
+  const project: PaperProject = {
+    id: newProjectId(),
+    createdAt: now,
+    updatedAt: now,
+    fileName: file.name,
+    pdf: file,
+    article,
+    document: null,
+    figures,
+    coverImages: [],
+    coverPrompt: article.coverImagePrompt || '',
+    coverSize: '1K'
+  };
+  // Removed or paused while a provider ignored the signal: the paper must not reach the library
+  signal.throwIfAborted();
+  await saveProject(project);
+  return project;
+};
+
+const BatchQueuePanel = forwardRef<BatchQueuePanelHandle, BatchQueuePanelProps>(({ generation, imageSettings, onOpen, onProjectSaved }, ref) => {
+  const [jobs, setJobs] = useState<BatchJob<PaperProject>[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const queueRef = useRef<BatchQueue<PaperProject> | null>(null);
+  const generationRef = useRef(generation);
+  generationRef.current = generation;
+  const imageSettingsRef = useRef(imageSettings);
+  imageSettingsRef.current = imageSettings;
+
+  useEffect(() => {
+    // The runner reads the generation and image settings at start time, so changing them affects jobs not yet started.
+    const queue = createBatchQueue<PaperProject>(
+      (file, signal, onProgress) => processPaper(generationRef.current, imageSettingsRef.current)(file, signal, onProgress),
+      setJobs,
+      concurrency
+    );
+    queueRef.current = queue;
+    return () => queue.dispose();
+  }, []);
+
+  const completed = jobs.filter(j => j.status === ProcessingState.COMPLETE);
+  const completedCount = completed.length;
+  useEffect(() => {
+    if (completedCount > 0) onProjectSaved();
+  }, [completedCount]);
+
+  useImperativeHandle(ref, () => ({
+    enqueue: (files: File[]) => queueRef.current?.add(files)
+  }));
+
+  if (jobs.length === 0) return null;
+
+  const failed = jobs.filter(j => j.status === ProcessingState.ERROR).length;
+  const queue = queueRef.current;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-medium text-gray-700">Batch ({completedCount}/{jobs.length} done{failed ? `, ${failed} failed` : ''})</label>
+        <label className="text-xs text-gray-500 flex items-center gap-1">
+          Parallel:
+          <select
+            value={concurrency}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              setConcurrency(value);
+              queue?.setConcurrency(value);
+            }}
+            className="text-xs border border-gray-300 rounded bg-white px-1"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {jobs.map(job => {
+          const badge = job.paused ? { label: 'Paused', className: 'bg-amber-100 text-amber-700' } : STATUS_BADGES[job.status];
+          const running = job.status === ProcessingState.READING || job.status === ProcessingState.GENERATING;
+          return (
+            <li key={job.id} className="p-2 rounded border border-gray-200 bg-white text-xs">
+              <div className="flex items-center gap-2">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${badge.className}`}>{badge.label}</span>
+                <span className="flex-1 truncate text-gray-700" title={job.file.name}>{job.file.name}</span>
+                {!job.paused && (job.status === ProcessingState.IDLE || running) && (
+                  <button onClick={() => queue?.pause(job.id)} className="text-gray-500 hover:text-amber-600">Pause</button>
+                )}
+                {job.paused && <button onClick={() => queue?.resume(job.id)} className="text-gray-500 hover:text-green-600">Resume</button>}
+                {job.status === ProcessingState.ERROR && <button onClick={() => queue?.retry(job.id)} className="text-gray-500 hover:text-green-600">Retry</button>}
+                <button onClick={() => queue?.remove(job.id)} className="text-gray-400 hover:text-red-500" title="Remove from queue">×</button>
+              </div>
+              {running && <p className="text-[10px] text-blue-700 mt-1 truncate">{job.message}</p>}
+              {job.error && <div className="mt-1"><ErrorNotice error={job.error} compact /></div>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Summary of finished articles */}
+      {completed.length > 0 && (
+        <div className="mt-3">
+          <p className="text-[10px] uppercase text-gray-500 font-bold mb-1">Results</p>
+          <ul className="space-y-1">
+            {completed.map(({ id, result }) => result && (
+              <li key={id} className="p-2 rounded border border-green-200 bg-green-50 text-xs">
+                <p className="font-semibold text-gray-800">{result.article.title}</p>
+                <p className="text-[10px] text-gray-500">
+                  {[result.article.meta.journal, result.article.meta.year].filter(Boolean).join(' · ')} · {result.article.sections.length} sections · {result.figures.length} figures
+                </p>
+                <p className="text-[10px] text-gray-600 mt-1 line-clamp-2">{result.article.summary}</p>
+                <button onClick={() => onOpen(result)} className="mt-1 text-[10px] font-semibold text-green-700 hover:underline">Open in editor →</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
+
+BatchQueuePanel.displayName = 'BatchQueuePanel';
+
+export default BatchQueuePanel;
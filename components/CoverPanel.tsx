@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { CoverAspect, CoverImageSize, CoverSet, CoverStyle, ImageGenerationState } from '../types';
+import { ScholarError, classifyError } from '../services/errors';
+import { COVER_STYLES, generateCoverImage } from '../services/geminiService';
+import {
+  COVER_ASPECT_LABELS, COVER_RATIOS, CoverOverlay, FIGURE_COVER_LAYOUTS, FigureCoverLayout, MOSAIC_MAX,
+  composeFigureCover, drawTitleOverlay, saveCoverOverlay
+} from '../utils/coverImage';
+import { ImageSettings, processImageUrl } from '../utils/imageProcessing';
+import { ExtractedImage } from '../utils/pdfUtils';
+import { downloadBlob, extensionFor } from '../utils/wechatExport';
+import ErrorNotice from './ErrorNotice';
+
+interface CoverPanelProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  size: CoverImageSize;
+  onSizeChange: (size: CoverImageSize) => void;
+  style: CoverStyle;
+  onStyleChange: (style: CoverStyle) => void;
+  covers: CoverSet;
+  onCoversChange: React.Dispatch<React.SetStateAction<CoverSet>>;
+  overlay: CoverOverlay;
+  onOverlayChange: (overlay: CoverOverlay) => void;
+  composed: Partial<Record<CoverAspect, string>>; // the picked covers with the overlay drawn on
+  imageSettings: ImageSettings;
+  providerLabel: string;
+  figures: ExtractedImage[]; // for covers composed locally from the paper's figures
+  title: string;
+  bandColor: string;
+  fontFamily: string;
+}
+
+export const EMPTY_COVER_SET: CoverSet = { candidates: { headline: [], square: [] }, selected: {} };
+
+const ASPECTS: CoverAspect[] = ['headline', 'square'];
+
+/**
+ * The picked cover with the series title drawn on, or the cover itself while the
+ * overlay is off. Redrawn shortly after the overlay text stops changing.
+ */
+export const useCoverOverlay = (src: string | undefined, overlay: CoverOverlay, fontFamily: string, settings: ImageSettings) => {
+  const [composed, setComposed] = useState(src);
+  useEffect(() => {
+    if (!src || !overlay.enabled || !overlay.text.trim()) {
+      setComposed(src);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      drawTitleOverlay(src, overlay, fontFamily, settings)
+        .then(url => { if (!cancelled) setComposed(url); })
+        .catch(e => {
+          console.warn("Cover overlay failed", e);
+          if (!cancelled) setComposed(src);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [src, overlay, fontFamily, settings]);
+  return composed;
+};
+
+const CoverPanel: React.FC<CoverPanelProps> = ({
+  prompt, onPromptChange, size, onSizeChange, style, onStyleChange, covers, onCoversChange,
+  overlay, onOverlayChange, composed, imageSettings, providerLabel, figures, title, bandColor, fontFamily
+}) => {
+  const [aspect, setAspect] = useState<CoverAspect>('headline');
+  const [count, setCount] = useState(2);
+  const [status, setStatus] = useState<ImageGenerationState>(ImageGenerationState.IDLE);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<ScholarError | null>(null);
+  const [layout, setLayout] = useState<FigureCoverLayout>('framed');
+  const [pickedFigures, setPickedFigures] = useState<string[]>([]); // ids, in click order
+  const [bandTitle, setBandTitle] = useState(title);
+
+  useEffect(() => setBandTitle(title), [title]);
+  // Picks of another paper's figures do not carry over
+  useEffect(() => setPickedFigures(prev => prev.filter(id => figures.some(f => f.id === id))), [figures]);
+
+  const candidates = covers.candidates[aspect];
+  const selected = covers.selected[aspect];
+
+  const updateOverlay = (patch: Partial<CoverOverlay>) => {
+    const next = { ...overlay, ...patch };
+    saveCoverOverlay(next);
+    onOverlayChange(next);
+  };
+
+  // One image in the chosen format, scaled and compressed like the figures.
+  const generateOne = async () => {
+    const raw = await generateCoverImage(prompt, size, { aspect, style });
+    return processImageUrl(raw, { ...imageSettings, trimMargins: false }, COVER_RATIOS[aspect]);
+  };
+
+  // Adds `count` new candidates; the first one is picked if nothing is yet.
+  const handleGenerate = async () => {
+    setStatus(ImageGenerationState.GENERATING);
+    setError(null);
+    try {
+      for (let i = 0; i < count; i++) {
+        setProgress(count > 1 ? `Generating ${i + 1}/${count}...` : 'Generating...');
+        addCandidate(await generateOne());
+      }
+      setStatus(ImageGenerationState.COMPLETE);
+    } catch (e) {
+      console.error(e);
+      setError(classifyError(e));
+      setStatus(ImageGenerationState.ERROR);
+    } finally {
+      setProgress('');
+    }
+  };
+
+  // Replaces one candidate in place, keeping it picked if it was.
+  const handleRegenerate = async (old: string) => {
+    setStatus(ImageGenerationState.GENERATING);
+    setError(null);
+    setProgress('Regenerating...');
+    try {
+      const url = await generateOne();
+      onCoversChange(prev => ({
+        candidates: { ...prev.candidates, [aspect]: prev.candidates[aspect].map(c => (c === old ? url : c)) },
+        selected: { ...prev.selected, [aspect]: prev.selected[aspect] === old ? url : prev.selected[aspect] }
+      }));
+      setStatus(ImageGenerationState.COMPLETE);
+    } catch (e) {
+      console.error(e);
+      setError(classifyError(e));
+      setStatus(ImageGenerationState.ERROR);
+    } finally {
+      setProgress('');
+    }
+  };
+
+  const addCandidate = (url: string) => onCoversChange(prev => ({
+    candidates: { ...prev.candidates, [aspect]: [...prev.candidates[aspect], url] },
+    selected: { ...prev.selected, [aspect]: prev.selected[aspect] ?? url }
+  }));
+
+  // Without a pick, the first figure is used
+  const coverFigures = pickedFigures.length
+    ? pickedFigures.map(id => figures.find(f => f.id === id)).filter((f): f is ExtractedImage => !!f)
+    : figures.slice(0, 1);
+
+  const togglePicked = (id: string) =>
+    setPickedFigures(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]));
+
+  // Rendered locally, so no provider is involved and nothing can be rate limited.
+  const handleCompose = async () => {
+    setStatus(ImageGenerationState.GENERATING);
+    setError(null);
+    setProgress('Composing...');
+    try {
+      addCandidate(await composeFigureCover(coverFigures.map(f => f.src), layout, aspect, bandTitle, bandColor, fontFamily, imageSettings));
+      setStatus(ImageGenerationState.COMPLETE);
+    } catch (e) {
+      console.error(e);
+      setError(classifyError(e));
+      setStatus(ImageGenerationState.ERROR);
+    } finally {
+      setProgress('');
+    }
+  };
+
+  const select = (url: string) => onCoversChange(prev => ({ ...prev, selected: { ...prev.selected, [aspect]: url } }));
+
+  const handleDownload = async (which: CoverAspect) => {
+    const url = composed[which];
+    if (!url) return;
+    const blob = await (await fetch(url)).blob();
+    downloadBlob(blob, `${which === 'headline' ? 'cover' : 'share-thumbnail'}.${extensionFor(blob.type)}`);
+  };
+
+  const busy = status === ImageGenerationState.GENERATING;
+  const buttonClass = (active: boolean) =>
+    `text-xs px-2 py-1 rounded border ${active ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'bg-white border-gray-200 text-gray-600'}`;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <label className="block text-sm font-medium text-gray-700 mb-2">2. Cover Image (AI)</label>
+      <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-3">
+
+        {/* EDITABLE PROMPT */}
+        <div>
+          <label className="text-[10px] uppercase text-gray-500 font-bold mb-1 block">Prompt (Editable):</label>
+          <textarea
+            value={prompt}
+            onChange={(e) => onPromptChange(e.target.value)}
+            className="w-full h-24 text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 resize-none bg-white text-gray-700"
+            placeholder="Describe the cover image..."
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-600 mr-1">Style:</span>
+          {(Object.keys(COVER_STYLES) as CoverStyle[]).map(s => (
+            <button key={s} onClick={() => onStyleChange(s)} className={buttonClass(style === s)}>
+              {COVER_STYLES[s].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-600">Size:</span>
+          {(['1K', '2K', '4K'] as const).map(s => (
+            <button key={s} onClick={() => onSizeChange(s)} className={buttonClass(size === s)}>
+              {s}
+            </button>
+          ))}
+          <label className="ml-auto text-xs text-gray-600 flex items-center gap-1">
+            ×
+            <select value={count} onChange={(e) => setCount(Number(e.target.value))} className="text-xs border border-gray-300 rounded bg-white px-1">
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {/* Format tabs: each keeps its own candidates and pick */}
+        <div className="flex border-b border-gray-200">
+          {ASPECTS.map(a => (
+            <button
+              key={a}
+              onClick={() => setAspect(a)}
+              className={`flex-1 text-xs py-1 -mb-px border-b-2 ${aspect === a ? 'border-indigo-500 text-indigo-700 font-semibold' : 'border-transparent text-gray-500'}`}
+            >
+              {COVER_ASPECT_LABELS[a]}{covers.candidates[a].length ? ` (${covers.candidates[a].length})` : ''}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={busy || !prompt}
+          className="w-full py-2 bg-indigo-600 text-white rounded-lg text-xs font-semibold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {busy ? (progress || 'Generating...') : `Generate${count > 1 ? ` ${count} candidates` : ''} with ${providerLabel}`}
+        </button>
+        {status === ImageGenerationState.ERROR && error && <ErrorNotice error={error} compact />}
+
+        {/* Local fallback: a cover from the paper's own figures */}
+        {figures.length > 0 && (
+          <div className="pt-2 border-t border-gray-200 space-y-2">
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-gray-600 mr-1">From figures:</span>
+              {(Object.keys(FIGURE_COVER_LAYOUTS) as FigureCoverLayout[]).map(l => (
+                <button key={l} onClick={() => setLayout(l)} className={buttonClass(layout === l)}>
+                  {FIGURE_COVER_LAYOUTS[l]}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {figures.map(f => {
+                const order = pickedFigures.indexOf(f.id);
+                return (
+                  <button
+                    key={f.id}
+                    onClick={() => togglePicked(f.id)}
+                    className={`relative shrink-0 w-14 h-14 bg-white rounded border-2 ${order >= 0 ? 'border-indigo-500' : 'border-gray-200'}`}
+                    title={f.label}
+                  >
+                    <img src={f.src} className="w-full h-full object-contain" alt={f.label} />
+                    {order >= 0 && (
+                      <span className="absolute top-0 right-0 bg-indigo-500 text-white text-[9px] px-1 rounded-bl">{order + 1}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <input
+              value={bandTitle}
+              onChange={(e) => setBandTitle(e.target.value)}
+              className="w-full text-xs p-1.5 border border-gray-300 rounded bg-white text-gray-700"
+              placeholder="Title on the cover (leave empty for none)"
+            />
+            <button
+              onClick={handleCompose}
+              disabled={busy}
+              className="w-full py-1.5 bg-white border border-indigo-300 text-indigo-700 rounded-lg text-xs font-semibold hover:bg-indigo-50 transition-colors disabled:opacity-50"
+            >
+              Compose {COVER_ASPECT_LABELS[aspect]} cover from {layout === 'framed' ? coverFigures[0]?.label : `${Math.min(coverFigures.length, MOSAIC_MAX)} figure(s)`}
+            </button>
+            {layout === 'mosaic' && pickedFigures.length > MOSAIC_MAX && (
+              <p className="text-[10px] text-gray-400">A mosaic holds the first {MOSAIC_MAX} picked figures.</p>
+            )}
+          </div>
+        )}
+
+        {candidates.length > 0 && (
+          <div className={`grid gap-2 ${aspect === 'square' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            {candidates.map((url, i) => (
+              <div key={i} className="relative group">
+                <button
+                  onClick={() => select(url)}
+                  className={`block w-full rounded overflow-hidden border-2 ${url === selected ? 'border-indigo-500' : 'border-transparent'}`}
+                  style={{ aspectRatio: String(COVER_RATIOS[aspect]) }}
+                  title={`Use candidate ${i + 1}`}
+                >
+                  <img src={url} className="w-full h-full object-cover" alt={`Candidate ${i + 1}`} />
+                </button>
+                <button
+                  onClick={() => handleRegenerate(url)}
+                  disabled={busy}
+                  className="absolute top-1 right-1 hidden group-hover:block bg-white bg-opacity-90 rounded px-1 text-[10px] text-gray-700 hover:text-indigo-700 disabled:opacity-50"
+                  title="Regenerate this candidate"
+                >
+                  ↻
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Series title overlay */}
+        <div className="pt-2 border-t border-gray-200 space-y-2">
+          <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={overlay.enabled} onChange={(e) => updateOverlay({ enabled: e.target.checked })} />
+            Draw series title on the cover
+          </label>
+          {overlay.enabled && (
+            <div className="flex gap-1">
+              <input
+                value={overlay.text}
+                onChange={(e) => updateOverlay({ text: e.target.value })}
+                className="flex-1 min-w-0 text-xs p-1.5 border border-gray-300 rounded bg-white text-gray-700"
+                placeholder="Series title, e.g. 学术速递"
+              />
+              {(['top', 'center', 'bottom'] as const).map(p => (
+                <button key={p} onClick={() => updateOverlay({ position: p })} className={buttonClass(overlay.position === p)} title={`Title at the ${p}`}>
+                  {p === 'top' ? '▔' : p === 'center' ? '▬' : '▁'}
+                </button>
+              ))}
+            </div>
+          )}
+          {composed[aspect] && overlay.enabled && overlay.text.trim() && (
+            <img src={composed[aspect]} className="w-full rounded border border-gray-200" alt="Cover with title" />
+          )}
+          <div className="flex gap-3 text-[10px]">
+            {ASPECTS.map(a => composed[a] && (
+              <button key={a} onClick={() => handleDownload(a)} className="text-indigo-600 hover:underline">
+                ⬇ {a === 'headline' ? 'Cover' : 'Share thumbnail'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoverPanel;
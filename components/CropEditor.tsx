@@ -0,0 +1,348 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Rect } from '../utils/figureBounds';
+import { ImageSettings } from '../utils/imageProcessing';
+import { ExtractedImage, PageRenderer, createPageRenderer, cropRegion, figureFromBlob } from '../utils/pdfUtils';
+
+interface CropEditorProps {
+  file: File;
+  image: ExtractedImage | null; // null: draw a brand-new figure
+  imageSettings: ImageSettings;
+  onSave: (images: ExtractedImage[]) => void; // replaces `image` (several after a split), or adds new ones
+  onClose: () => void;
+}
+
+interface Region {
+  key: string;
+  label: string;
+  page: number; // the page it was drawn on
+  rect: Rect; // page pixels at RENDER_SCALE
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+type Drag =
+  | { mode: 'move'; key: string; start: Point; origin: Rect }
+  | { mode: 'resize'; key: string; anchor: Point } // the opposite corner stays put
+  | { mode: 'draw'; key: string; start: Point };
+
+const MIN_SIZE = 10;
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+const newKey = () => Math.random().toString(36).slice(2, 8);
+
+const rectFrom = (a: Point, b: Point): Rect => ({
+  x0: Math.min(a.x, b.x),
+  y0: Math.min(a.y, b.y),
+  x1: Math.max(a.x, b.x),
+  y1: Math.max(a.y, b.y)
+});
+
+const oppositeCorner = (rect: Rect, corner: Corner): Point => ({
+  x: corner.includes('w') ? rect.x1 : rect.x0,
+  y: corner.includes('n') ? rect.y1 : rect.y0
+});
+
+// "Figure 2" / "Figure 2a" -> "Figure 2"
+const baseLabel = (label: string) => label.replace(/(\d)[a-z]$/, '$1');
+
+// The first free sub-figure letter for `label`: Figure 2a, Figure 2b, ...
+const nextSubLabel = (label: string, regions: Region[]) => {
+  const base = baseLabel(label);
+  const used = new Set(regions.map(r => r.label));
+  for (let i = 0; i < 26; i++) {
+    const candidate = `${base}${/\d$/.test(base) ? '' : ' '}${String.fromCharCode(97 + i)}`;
+    if (!used.has(candidate)) return candidate;
+  }
+  return base;
+};
+
+/**
+ * Shows the rendered source page with the crop rectangles on top. Drag a
+ * rectangle to move it, its corners to resize it, or empty space to draw a new
+ * one; split a multi-panel figure into sub-figures, then save the crops back.
+ */
+const CropEditor: React.FC<CropEditorProps> = ({ file, image, imageSettings, onSave, onClose }) => {
+  const rendererRef = useRef<PageRenderer | null>(null);
+  const canvasRef = useRef<OffscreenCanvas | null>(null); // the rendered page, cropped on save
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [numPages, setNumPages] = useState(0);
+  const [page, setPage] = useState(image?.page ?? 1);
+  const [pageImage, setPageImage] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [regions, setRegions] = useState<Region[]>(() =>
+    image?.bounds ? [{ key: newKey(), label: image.label, page: image.page, rect: image.bounds }] : []
+  );
+  const [selectedKey, setSelectedKey] = useState<string | null>(regions[0]?.key ?? null);
+
+  useEffect(() => {
+    let cancelled = false;
+    createPageRenderer(file)
+      .then(renderer => {
+        if (cancelled) return renderer.destroy();
+        rendererRef.current = renderer;
+        setNumPages(renderer.numPages);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer || page < 1 || page > numPages) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setPageImage(null);
+    renderer.render(page)
+      .then(async canvas => {
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        if (cancelled) return;
+        canvasRef.current = canvas;
+        url = URL.createObjectURL(blob);
+        setPageImage({ url, width: canvas.width, height: canvas.height });
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [page, numPages]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const defaultLabel = image?.label || 'Figure';
+  const selected = regions.find(r => r.key === selectedKey);
+  const pageRegions = regions.filter(r => r.page === page);
+
+  const updateRegion = (key: string, patch: Partial<Region>) =>
+    setRegions(prev => prev.map(r => (r.key === key ? { ...r, ...patch } : r)));
+
+  // Pointer position in page pixels, clamped to the page.
+  const toPage = (e: React.PointerEvent): Point => {
+    const box = overlayRef.current!.getBoundingClientRect();
+    const { width, height } = pageImage!;
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - box.left) / box.width) * width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - box.top) / box.height) * height))
+    };
+  };
+
+  const beginDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.stopPropagation();
+    e.preventDefault();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+    setSelectedKey(drag.key);
+  };
+
+  const handleOverlayDown = (e: React.PointerEvent) => {
+    if (!pageImage) return;
+    const start = toPage(e);
+    const key = newKey();
+    const label = regions.length === 0 ? defaultLabel : nextSubLabel(defaultLabel, regions);
+    setRegions(prev => [...prev, { key, label, page, rect: rectFrom(start, start) }]);
+    beginDrag(e, { mode: 'draw', key, start });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !pageImage) return;
+    const point = toPage(e);
+    if (drag.mode === 'move') {
+      const { origin } = drag;
+      const dx = Math.min(pageImage.width - origin.x1, Math.max(-origin.x0, point.x - drag.start.x));
+      const dy = Math.min(pageImage.height - origin.y1, Math.max(-origin.y0, point.y - drag.start.y));
+      updateRegion(drag.key, { rect: { x0: origin.x0 + dx, y0: origin.y0 + dy, x1: origin.x1 + dx, y1: origin.y1 + dy } });
+    } else {
+      updateRegion(drag.key, { rect: rectFrom(drag.mode === 'draw' ? drag.start : drag.anchor, point) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== 'draw') return;
+    // A click without a drag draws nothing
+    setRegions(prev => prev.filter(r => r.key !== drag.key || (r.rect.x1 - r.rect.x0 >= MIN_SIZE && r.rect.y1 - r.rect.y0 >= MIN_SIZE)));
+  };
+
+  const split = (direction: 'vertical' | 'horizontal') => {
+    if (!selected) return;
+    const { rect } = selected;
+    const mid = direction === 'vertical' ? (rect.x0 + rect.x1) / 2 : (rect.y0 + rect.y1) / 2;
+    const first: Rect = direction === 'vertical' ? { ...rect, x1: mid } : { ...rect, y1: mid };
+    const second: Rect = direction === 'vertical' ? { ...rect, x0: mid } : { ...rect, y0: mid };
+    const firstLabel = selected.label === baseLabel(selected.label) ? nextSubLabel(selected.label, regions) : selected.label;
+    const secondLabel = nextSubLabel(selected.label, [...regions, { ...selected, label: firstLabel }]);
+    const added = { key: newKey(), label: secondLabel, page: selected.page, rect: second };
+    setRegions(prev => prev.flatMap(r => (r.key === selected.key ? [{ ...r, label: firstLabel, rect: first }, added] : [r])));
+  };
+
+  const removeRegion = (key: string) => {
+    setRegions(prev => prev.filter(r => r.key !== key));
+    if (selectedKey === key) setSelectedKey(null);
+  };
+
+  // Regions can sit on different pages; each is cut from its own, rendered once.
+  const handleSave = async () => {
+    const renderer = rendererRef.current;
+    if (!renderer || !canvasRef.current) return;
+    const canvases = new Map<number, OffscreenCanvas>([[page, canvasRef.current]]);
+    const saved: ExtractedImage[] = [];
+    try {
+      for (const [idx, region] of regions.entries()) {
+        if (!canvases.has(region.page)) canvases.set(region.page, await renderer.render(region.page));
+        const crop = await cropRegion(canvases.get(region.page)!, region.rect, imageSettings);
+        if (!crop) continue;
+        const label = region.label.trim() || defaultLabel;
+        saved.push(figureFromBlob(crop.blob, {
+          id: idx === 0 && image ? image.id : `${region.page}-${label}-${region.key}`,
+          label,
+          page: region.page,
+          confidence: 1, // placed by hand
+          rows: regions.length === 1 ? image?.rows : undefined,
+          bounds: crop.bounds
+        }));
+      }
+    } catch (e) {
+      saved.forEach(figure => URL.revokeObjectURL(figure.src));
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    onSave(saved);
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Page with crop rectangles */}
+        <div className="flex-1 overflow-auto bg-gray-100 p-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!pageImage && !error && <p className="text-sm text-gray-500 animate-pulse">Rendering page {page}...</p>}
+          {pageImage && (
+            <div
+              ref={overlayRef}
+              className="relative mx-auto select-none cursor-crosshair bg-white shadow"
+              style={{ maxWidth: '800px', touchAction: 'none' }}
+              onPointerDown={handleOverlayDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={pageImage.url} className="w-full block pointer-events-none" alt={`Page ${page}`} draggable={false} />
+              {pageRegions.map(region => {
+                const isSelected = region.key === selectedKey;
+                const { x0, y0, x1, y1 } = region.rect;
+                return (
+                  <div
+                    key={region.key}
+                    className={`absolute border-2 cursor-move ${isSelected ? 'border-green-500 bg-green-500' : 'border-blue-500 bg-blue-500'} bg-opacity-10`}
+                    style={{
+                      left: percent(x0, pageImage.width),
+                      top: percent(y0, pageImage.height),
+                      width: percent(x1 - x0, pageImage.width),
+                      height: percent(y1 - y0, pageImage.height)
+                    }}
+                    onPointerDown={(e) => beginDrag(e, { mode: 'move', key: region.key, start: toPage(e), origin: region.rect })}
+                  >
+                    <span className="absolute -top-5 left-0 text-[10px] font-semibold text-white bg-gray-800 bg-opacity-75 px-1 rounded whitespace-nowrap">
+                      {region.label}
+                    </span>
+                    {isSelected && CORNERS.map(corner => (
+                      <span
+                        key={corner}
+                        className="absolute w-3 h-3 bg-white border-2 border-green-500 rounded-sm"
+                        style={{
+                          left: corner.includes('w') ? '-6px' : undefined,
+                          right: corner.includes('e') ? '-6px' : undefined,
+                          top: corner.includes('n') ? '-6px' : undefined,
+                          bottom: corner.includes('s') ? '-6px' : undefined,
+                          cursor: corner === 'nw' || corner === 'se' ? 'nwse-resize' : 'nesw-resize'
+                        }}
+                        onPointerDown={(e) => beginDrag(e, { mode: 'resize', key: region.key, anchor: oppositeCorner(region.rect, corner) })}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="w-72 border-l border-gray-200 p-4 flex flex-col gap-4 overflow-y-auto">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-bold text-gray-700">{image ? `Crop ${image.label}` : 'New figure'}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close (Esc)">×</button>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page <= 1} className="px-2 py-1 border rounded disabled:opacity-40">◀</button>
+            <span>Page {page} / {numPages || '…'}</span>
+            <button onClick={() => setPage(p => Math.min(numPages, p + 1))} disabled={page >= numPages} className="px-2 py-1 border rounded disabled:opacity-40">▶</button>
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            Drag on the page to draw a region, drag a region to move it, drag its corners to resize. Each region is saved as its own figure.
+          </p>
+
+          <ul className="space-y-2">
+            {regions.map(region => (
+              <li
+                key={region.key}
+                className={`p-2 rounded border text-xs ${region.key === selectedKey ? 'border-green-400 bg-green-50' : 'border-gray-200'}`}
+                onClick={() => { setSelectedKey(region.key); setPage(region.page); }}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] text-gray-400">p.{region.page}</span>
+                  <input
+                    value={region.label}
+                    onChange={(e) => updateRegion(region.key, { label: e.target.value })}
+                    className="flex-1 min-w-0 text-xs p-1 border border-gray-300 rounded"
+                  />
+                  <button onClick={() => removeRegion(region.key)} className="text-gray-400 hover:text-red-500" title="Remove region">×</button>
+                </div>
+              </li>
+            ))}
+            {regions.length === 0 && <li className="text-[10px] text-gray-400 text-center py-2">No region yet — draw one on the page.</li>}
+          </ul>
+
+          <div className="flex gap-2">
+            <button onClick={() => split('vertical')} disabled={!selected} className="flex-1 py-1.5 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40">Split ⇆</button>
+            <button onClick={() => split('horizontal')} disabled={!selected} className="flex-1 py-1.5 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40">Split ⇅</button>
+          </div>
+
+          <div className="mt-auto flex gap-2">
+            <button onClick={onClose} className="flex-1 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handleSave}
+              disabled={!pageImage || regions.length === 0}
+              className="flex-1 py-2 text-sm font-semibold bg-wechat-primary text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,53 @@
+import React, { CSSProperties } from 'react';
+import { boldTextToHtml, readEditableText } from '../utils/articleDocument';
+
+interface EditableTextProps {
+  text: string; // **bold** markup
+  editable: boolean;
+  as?: 'p' | 'h1' | 'h2' | 'span' | 'div' | 'th' | 'td';
+  style?: CSSProperties;
+  onCommit: (text: string) => void;
+  onFocus?: () => void;
+  onEnter?: () => void; // Enter is never a line break inside a block
+  onBackspaceEmpty?: () => void;
+}
+
+// One contentEditable element per text field. The DOM is only read back on blur,
+// so React re-renders never fight the caret while typing.
+const EditableText: React.FC<EditableTextProps> = ({ text, editable, as = 'div', style, onCommit, onFocus, onEnter, onBackspaceEmpty }) => {
+  const commit = (el: HTMLElement) => {
+    const next = readEditableText(el);
+    if (next !== text) onCommit(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(e.currentTarget);
+      onEnter?.();
+    } else if (e.key === 'Backspace' && onBackspaceEmpty && !e.currentTarget.textContent) {
+      e.preventDefault();
+      onBackspaceEmpty();
+    }
+  };
+
+  // Pasted rich text would bring foreign styles along; keep only the text.
+  const handlePaste = (e: React.ClipboardEvent<HTMLElement>) => {
+    e.preventDefault();
+    document.execCommand('insertText', false, e.clipboardData.getData('text/plain').replace(/\s+/g, ' '));
+  };
+
+  return React.createElement(as, {
+    contentEditable: editable,
+    suppressContentEditableWarning: true,
+    spellCheck: false,
+    style: { outline: 'none', ...style },
+    dangerouslySetInnerHTML: { __html: boldTextToHtml(text) },
+    onBlur: (e: React.FocusEvent<HTMLElement>) => commit(e.currentTarget),
+    onFocus,
+    onKeyDown: editable ? handleKeyDown : undefined,
+    onPaste: editable ? handlePaste : undefined
+  });
+};
+
+export default EditableText;
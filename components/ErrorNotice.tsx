@@ -0,0 +1,27 @@
+import React from 'react';
+import { ErrorKind, ScholarError } from '../services/errors';
+
+const TITLES: Record<ErrorKind, string> = {
+  'auth': 'Invalid or missing API key',
+  'rate-limit': 'Rate limit / quota exceeded',
+  'safety-blocked': 'Blocked by safety filters',
+  'invalid-output': 'Unusable model output',
+  'network': 'Network problem',
+  'pdf-parse': 'Could not read the PDF',
+  'unknown': 'Something went wrong'
+};
+
+interface ErrorNoticeProps {
+  error: ScholarError;
+  compact?: boolean;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, compact = false }) => (
+  <div className={`${compact ? 'mt-2 p-2 text-xs' : 'mt-4 p-3 text-sm'} bg-red-50 text-red-600 rounded-lg border border-red-100`}>
+    <p className="font-semibold">{TITLES[error.kind]}</p>
+    <p className="text-xs text-red-500 mt-1 break-words">{error.message}</p>
+    <p className="text-xs text-gray-700 mt-2"><span className="font-semibold">What to do:</span> {error.suggestion}</p>
+  </div>
+);
+
+export default ErrorNotice;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ImageFormat, ImageSettings, saveImageSettings } from '../utils/imageProcessing';
+
+interface ImageSettingsPanelProps {
+  settings: ImageSettings;
+  onChange: (settings: ImageSettings) => void;
+}
+
+const FORMATS: { format: ImageFormat; label: string }[] = [
+  { format: 'image/jpeg', label: 'JPEG' },
+  { format: 'image/webp', label: 'WebP' },
+  { format: 'image/png', label: 'PNG' }
+];
+
+const WIDTHS = [720, 1080, 1440, 0];
+
+const ImageSettingsPanel: React.FC<ImageSettingsPanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (patch: Partial<ImageSettings>) => {
+    const next = { ...settings, ...patch };
+    saveImageSettings(next);
+    onChange(next);
+  };
+
+  const format = FORMATS.find(f => f.format === settings.format)?.label;
+  const lossy = settings.format !== 'image/png';
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-xs text-gray-500 hover:text-gray-700"
+      >
+        <span>
+          Images: <span className="font-semibold text-gray-700">
+            {format} · {settings.maxWidth ? `${settings.maxWidth}px` : 'full size'}{lossy ? ` · ${Math.round(settings.quality * 100)}%` : ''}
+          </span>
+        </span>
+        <span>{open ? '▲' : '🖼 Compression'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+          <div className="flex gap-1">
+            {FORMATS.map(f => (
+              <button
+                key={f.format}
+                onClick={() => update({ format: f.format })}
+                className={`flex-1 text-[10px] px-1 py-1 rounded border ${settings.format === f.format ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-gray-200 text-gray-600'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          {settings.format === 'image/webp' && (
+            <p className="text-[10px] text-amber-600">WebP is smallest, but WeChat only accepts JPEG and PNG uploads.</p>
+          )}
+
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            Max width
+            <select
+              value={settings.maxWidth}
+              onChange={(e) => update({ maxWidth: Number(e.target.value) })}
+              className="flex-1 text-xs border border-gray-300 rounded bg-white px-1 py-0.5"
+            >
+              {WIDTHS.map(w => <option key={w} value={w}>{w ? `${w}px` : 'Original'}</option>)}
+            </select>
+          </label>
+
+          <label className={`flex items-center gap-2 text-xs text-gray-600 ${lossy ? '' : 'opacity-50'}`}>
+            Quality
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={settings.quality}
+              disabled={!lossy}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-8 text-right">{Math.round(settings.quality * 100)}%</span>
+          </label>
+
+          <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={settings.trimMargins} onChange={(e) => update({ trimMargins: e.target.checked })} />
+            Trim white margins around figures
+          </label>
+
+          <p className="text-[10px] text-gray-400">
+            Applies to figures extracted or cropped from now on and to new covers. Images still over WeChat's 1 MB limit are compressed further.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageSettingsPanel;
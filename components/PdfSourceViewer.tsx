@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SourceAnchor } from '../types';
+import { Rect } from '../utils/figureBounds';
+import { PageRenderer, createPageRenderer } from '../utils/pdfUtils';
+import { findQuoteRects } from '../utils/quoteLocator';
+
+interface PdfSourceViewerProps {
+  file: File;
+  sources: SourceAnchor[] | null; // a new array for every click, so clicking the same paragraph again re-scrolls
+  onClose: () => void;
+}
+
+interface PageImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+// The passage being shown: where it was found, or just its page when the quote was not.
+interface Located {
+  page: number;
+  rects: Rect[];
+}
+
+const LETTER_ASPECT = 792 / 612; // placeholder height/width until a page is rendered
+
+/**
+ * The original PDF beside the article. Pages render as they scroll into view;
+ * picking a source scrolls to its page and highlights the quoted passage.
+ */
+const PdfSourceViewer: React.FC<PdfSourceViewerProps> = ({ file, sources, onClose }) => {
+  const rendererRef = useRef<PageRenderer | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const requestedRef = useRef(new Set<number>());
+  const urlsRef = useRef<string[]>([]); // page images, kept once rendered
+
+  const [numPages, setNumPages] = useState(0);
+  const [pages, setPages] = useState<Record<number, PageImage>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [shownSources, setShownSources] = useState(sources);
+  const [located, setLocated] = useState<Located | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestedRef.current.clear();
+    setPages({});
+    setNumPages(0);
+    createPageRenderer(file)
+      .then(renderer => {
+        if (cancelled) return renderer.destroy();
+        rendererRef.current = renderer;
+        setNumPages(renderer.numPages);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+      urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      urlsRef.current = [];
+    };
+  }, [file]);
+
+  const renderPage = (pageNum: number) => {
+    const renderer = rendererRef.current;
+    if (!renderer || requestedRef.current.has(pageNum)) return;
+    requestedRef.current.add(pageNum);
+    renderer.render(pageNum)
+      .then(async canvas => {
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        if (rendererRef.current !== renderer) return;
+        const url = URL.createObjectURL(blob);
+        urlsRef.current.push(url);
+        setPages(prev => ({ ...prev, [pageNum]: { url, width: canvas.width, height: canvas.height } }));
+      })
+      .catch(e => {
+        requestedRef.current.delete(pageNum);
+        console.warn(`Could not render page ${pageNum}`, e);
+      });
+  };
+
+  // Render pages shortly before they scroll into view
+  useEffect(() => {
+    if (!numPages || !scrollRef.current) return;
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        if (entry.isIntersecting) renderPage(Number((entry.target as HTMLElement).dataset.page));
+      });
+    }, { root: scrollRef.current, rootMargin: '400px 0px' });
+    pageRefs.current.slice(0, numPages).forEach(el => el && observer.observe(el));
+    return () => observer.disconnect();
+  }, [numPages]);
+
+  // A new paragraph starts at its first source
+  if (shownSources !== sources) {
+    setShownSources(sources);
+    setIndex(0);
+  }
+
+  // Find the passage, on its page or the pages next to it: models are often one page off
+  const anchor = sources?.[Math.min(index, sources.length - 1)];
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!anchor || !renderer || !numPages) return;
+    let cancelled = false;
+    const page = Math.min(Math.max(anchor.page, 1), numPages);
+    setLocated(null);
+    setSearching(true);
+    (async () => {
+      for (const candidate of [page, page - 1, page + 1].filter(p => p >= 1 && p <= numPages)) {
+        const rects = findQuoteRects(await renderer.textRuns(candidate), anchor.quote);
+        if (rects?.length) return { page: candidate, rects };
+      }
+      return { page, rects: [] };
+    })()
+      .then(found => {
+        if (cancelled) return;
+        setLocated(found);
+        renderPage(found.page);
+      })
+      .catch(e => console.warn('Could not search the page text', e))
+      .finally(() => !cancelled && setSearching(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, index, numPages]);
+
+  // Scroll once the page has its real size, so the passage lands where it was computed
+  const locatedImage = located ? pages[located.page] : undefined;
+  useEffect(() => {
+    const container = scrollRef.current;
+    const pageEl = located && pageRefs.current[located.page - 1];
+    if (!container || !pageEl) return;
+    const top = located.rects.length && locatedImage
+      ? Math.min(...located.rects.map(r => r.y0)) / locatedImage.height * pageEl.clientHeight
+      : 0;
+    container.scrollTo({ top: pageEl.offsetTop + top - 80, behavior: 'smooth' });
+  }, [located, locatedImage]);
+
+  const placeholderAspect = (() => {
+    const first = Object.values(pages)[0] as PageImage | undefined;
+    return first ? first.height / first.width : LETTER_ASPECT;
+  })();
+
+  return (
+    <div className="h-full flex flex-col bg-gray-200 border-l border-gray-300">
+      <div className="flex items-center gap-2 px-3 py-2 bg-white border-b border-gray-200 text-xs">
+        <span className="font-semibold text-gray-700 truncate" title={file.name}>📄 {file.name}</span>
+        {sources && sources.length > 1 && (
+          <span className="flex items-center gap-1 text-gray-500">
+            <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="px-1 disabled:opacity-30">‹</button>
+            Source {index + 1}/{sources.length}
+            <button onClick={() => setIndex(i => Math.min(sources.length - 1, i + 1))} disabled={index >= sources.length - 1} className="px-1 disabled:opacity-30">›</button>
+          </span>
+        )}
+        <button onClick={onClose} title="Close the PDF" className="ml-auto text-gray-400 hover:text-gray-700 text-base leading-none">×</button>
+      </div>
+
+      {anchor && (
+        <div className="px-3 py-2 bg-yellow-50 border-b border-yellow-200 text-[11px] text-gray-700">
+          <span className="font-semibold">p.{located?.page ?? anchor.page}</span>
+          {searching ? <span className="text-gray-400"> · searching...</span>
+            : located && located.rects.length === 0 && <span className="text-amber-700"> · passage not found on the page</span>}
+          <p className="italic mt-1 line-clamp-3" title={anchor.quote}>“{anchor.quote}”</p>
+        </div>
+      )}
+      {!sources && (
+        <p className="px-3 py-2 bg-white border-b border-gray-200 text-[11px] text-gray-500">Click a paragraph in the article to show the passage it is based on.</p>
+      )}
+      {error && <p className="px-3 py-2 text-xs text-red-500">{error}</p>}
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-3">
+        {Array.from({ length: numPages }, (_, i) => {
+          const pageNum = i + 1;
+          const image = pages[pageNum];
+          return (
+            <div
+              key={pageNum}
+              ref={el => { pageRefs.current[i] = el; }}
+              data-page={pageNum}
+              className="relative bg-white shadow"
+              style={{ aspectRatio: image ? `${image.width} / ${image.height}` : `1 / ${placeholderAspect}` }}
+            >
+              {image ? (
+                <img src={image.url} alt={`Page ${pageNum}`} className="w-full h-full block" />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-300">{pageNum}</div>
+              )}
+              {image && located?.page === pageNum && located.rects.map((rect, r) => (
+                <div
+                  key={r}
+                  className="absolute bg-yellow-300/50 mix-blend-multiply rounded-sm"
+                  style={{
+                    left: `${rect.x0 / image.width * 100}%`,
+                    top: `${rect.y0 / image.height * 100}%`,
+                    width: `${(rect.x1 - rect.x0) / image.width * 100}%`,
+                    height: `${(rect.y1 - rect.y0) / image.height * 100}%`
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PdfSourceViewer;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Project, ProjectSummary, deleteProject, duplicateProject, getProject, listProjects, matchesQuery } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  activeProjectId: string | null;
+  revision: number; // bumped by the parent after every autosave
+  onOpen: (project: Project) => void;
+  onDeleted: (id: string) => void;
+}
+
+const inputClass = "w-full text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-green-500 focus:border-green-500 bg-white text-gray-700";
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ activeProjectId, revision, onOpen, onDeleted }) => {
+  const [open, setOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        setError(null);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+
+  useEffect(() => {
+    refresh();
+  }, [revision]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    refresh();
+  };
+
+  const handleOpen = (id: string) => run(async () => {
+    const project = await getProject(id);
+    if (!project) throw new Error("This project no longer exists");
+    onOpen(project);
+  });
+
+  const handleDelete = (summary: ProjectSummary) => {
+    if (!window.confirm(`Delete "${summary.title}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteProject(summary.id);
+      onDeleted(summary.id);
+    });
+  };
+
+  const visible = projects.filter(p => matchesQuery(p, query));
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-xs text-gray-500 hover:text-gray-700"
+      >
+        <span>Library: <span className="font-semibold text-gray-700">{projects.length} saved</span></span>
+        <span>{open ? '▲' : '📚 Projects'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+          <input value={query} onChange={(e) => setQuery(e.target.value)} className={inputClass} placeholder="Search title, journal, year..." />
+          {error && <p className="text-[10px] text-red-500">{error}</p>}
+          {visible.length === 0 && <p className="text-[10px] text-gray-400 text-center py-2">{projects.length ? 'No matches' : 'Generated articles are saved here automatically.'}</p>}
+          <ul className="max-h-64 overflow-y-auto space-y-1">
+            {visible.map(p => (
+              <li
+                key={p.id}
+                className={`p-2 rounded border text-xs ${p.id === activeProjectId ? 'bg-green-50 border-green-300' : 'bg-white border-gray-200'}`}
+              >
+                <button onClick={() => handleOpen(p.id)} className="w-full text-left" title={p.fileName}>
+                  <p className="font-semibold text-gray-700 truncate">
+                    {p.roundup && <span className="mr-1 px-1 rounded bg-green-100 text-green-700 text-[10px]">本周精选</span>}
+                    {p.title}
+                  </p>
+                  <p className="text-[10px] text-gray-400 truncate">
+                    {[p.journal, p.year].filter(Boolean).join(' · ') || p.fileName} — {formatDate(p.updatedAt)}
+                  </p>
+                </button>
+                <div className="flex gap-3 mt-1 text-[10px]">
+                  <button onClick={() => handleOpen(p.id)} className="text-gray-500 hover:text-green-600">Open</button>
+                  <button onClick={() => run(() => duplicateProject(p.id))} className="text-gray-500 hover:text-green-600">Duplicate</button>
+                  <button onClick={() => handleDelete(p)} className="text-gray-500 hover:text-red-500">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptProfile } from '../types';
+import {
+  BUILT_IN_PROFILES, DEFAULT_PROFILE, isBuiltInProfile, loadCustomProfiles, parseProfileJson,
+  saveActiveProfileId, saveCustomProfiles, serializeProfile
+} from '../services/promptProfiles';
+import { downloadBlob } from '../utils/wechatExport';
+
+interface PromptProfilePanelProps {
+  profile: PromptProfile;
+  onChange: (profile: PromptProfile) => void;
+}
+
+const inputClass = "w-full text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-green-500 focus:border-green-500 bg-white text-gray-700";
+
+const PromptProfilePanel: React.FC<PromptProfilePanelProps> = ({ profile, onChange }) => {
+  const [customProfiles, setCustomProfiles] = useState<PromptProfile[]>(() => loadCustomProfiles());
+  const [draft, setDraft] = useState(() => serializeProfile(profile));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allProfiles = [...BUILT_IN_PROFILES, ...customProfiles];
+  const isCustom = !isBuiltInProfile(profile.id);
+
+  useEffect(() => {
+    setDraft(serializeProfile(profile));
+    setError(null);
+  }, [profile]);
+
+  const select = (next: PromptProfile) => {
+    saveActiveProfileId(next.id);
+    onChange(next);
+  };
+
+  const storeCustom = (profiles: PromptProfile[]) => {
+    setCustomProfiles(profiles);
+    saveCustomProfiles(profiles);
+  };
+
+  // Imported and edited profiles replace a custom one with the same id.
+  const storeAndSelect = (json: string) => {
+    try {
+      const next = parseProfileJson(json);
+      storeCustom([...customProfiles.filter(p => p.id !== next.id), next]);
+      setError(null);
+      select(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) storeAndSelect(await file.text());
+  };
+
+  // Saving an edited built-in drops its id, so it becomes a custom copy and the original stays intact.
+  const handleSave = () => {
+    if (isCustom) {
+      storeAndSelect(draft);
+      return;
+    }
+    try {
+      const { id, ...rest } = JSON.parse(draft);
+      storeAndSelect(JSON.stringify({ ...rest, name: rest.name === profile.name ? `${profile.name} (custom)` : rest.name }));
+    } catch {
+      setError("Profile is not valid JSON");
+    }
+  };
+
+  const handleDelete = () => {
+    storeCustom(customProfiles.filter(p => p.id !== profile.id));
+    select(DEFAULT_PROFILE);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs text-gray-600 mb-1">Article profile</label>
+      <select
+        value={profile.id}
+        onChange={(e) => select(allProfiles.find(p => p.id === e.target.value) ?? DEFAULT_PROFILE)}
+        className={inputClass}
+      >
+        {allProfiles.map(p => (
+          <option key={p.id} value={p.id}>{p.name}{isBuiltInProfile(p.id) ? '' : ' ★'}</option>
+        ))}
+      </select>
+      <p className="text-[10px] text-gray-400 mt-1 truncate" title={profile.sections.map(s => s.title).join(' / ')}>
+        {profile.titlePattern.split('|')[0].trim()} · {profile.sections.map(s => s.title).join(' / ')}
+      </p>
+
+      <div className="flex gap-3 mt-1 text-[10px]">
+        <button onClick={() => fileInputRef.current?.click()} className="text-gray-500 hover:text-green-600">Import JSON</button>
+        <button onClick={() => downloadBlob(new Blob([serializeProfile(profile)], { type: 'application/json' }), `${profile.id}.profile.json`)} className="text-gray-500 hover:text-green-600">Export JSON</button>
+        {isCustom && <button onClick={handleDelete} className="text-gray-500 hover:text-red-500">Delete</button>}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      <details className="mt-2">
+        <summary className="text-[10px] text-gray-500 cursor-pointer">Edit as JSON</summary>
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className={`${inputClass} h-48 font-mono text-[10px] resize-y`}
+          />
+          <button
+            onClick={handleSave}
+            disabled={draft === serializeProfile(profile)}
+            className="text-xs px-2 py-1 rounded border bg-green-50 border-green-300 text-green-700 disabled:opacity-50"
+          >
+            {isCustom ? 'Save' : 'Save as custom profile'}
+          </button>
+        </div>
+      </details>
+      {error && <p className="text-[10px] text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default PromptProfilePanel;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { PROVIDER_KINDS, ProviderConfig, ProviderKind, loadProviderConfig, saveProviderConfig } from '../services/providers';
+
+interface ProviderSettingsProps {
+  onChange?: (config: ProviderConfig) => void;
+}
+
+const inputClass = "w-full text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-green-500 focus:border-green-500 bg-white text-gray-700";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onChange }) => {
+  const [config, setConfig] = useState<ProviderConfig>(() => loadProviderConfig());
+  const [open, setOpen] = useState(false);
+
+  const update = (patch: Partial<ProviderConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveProviderConfig(next);
+    onChange?.(next);
+  };
+
+  const current = PROVIDER_KINDS.find(p => p.kind === config.kind);
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-xs text-gray-500 hover:text-gray-700"
+      >
+        <span>Model: <span className="font-semibold text-gray-700">{current?.label}</span></span>
+        <span>{open ? '▲' : '⚙ Settings'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+          <div className="flex gap-1">
+            {PROVIDER_KINDS.map(p => (
+              <button
+                key={p.kind}
+                onClick={() => update({ kind: p.kind as ProviderKind })}
+                className={`flex-1 text-[10px] px-1 py-1 rounded border ${config.kind === p.kind ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-gray-200 text-gray-600'}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {config.kind === 'gemini' && (
+            <input
+              type="password"
+              value={config.apiKey || ''}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              className={inputClass}
+              placeholder="API key (defaults to GEMINI_API_KEY)"
+            />
+          )}
+
+          {config.kind === 'openai' && (
+            <>
+              <input
+                value={config.baseUrl || ''}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                className={inputClass}
+                placeholder="Base URL, e.g. http://localhost:8080/v1"
+              />
+              <input
+                value={config.model || ''}
+                onChange={(e) => update({ model: e.target.value })}
+                className={inputClass}
+                placeholder="Model, e.g. qwen2.5-32b-instruct"
+              />
+              <input
+                value={config.imageModel || ''}
+                onChange={(e) => update({ imageModel: e.target.value })}
+                className={inputClass}
+                placeholder="Image model (optional)"
+              />
+              <input
+                type="password"
+                value={config.apiKey || ''}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                className={inputClass}
+                placeholder="API key (optional for local servers)"
+              />
+              <p className="text-[10px] text-gray-500">This backend reads text extracted from the PDF, not the PDF itself.</p>
+            </>
+          )}
+
+          {config.kind === 'mock' && (
+            <p className="text-[10px] text-gray-500">Returns deterministic placeholder output without calling any API.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedArticle, RoundupArticle } from '../types';
+import { ScholarError, classifyError, isAbortError } from '../services/errors';
+import { ProjectSummary, getProject, listProjects } from '../services/projectStore';
+import { RoundupSource, generateRoundup } from '../services/roundupService';
+import { isRoundup } from '../utils/articleText';
+import { ExtractedImage } from '../utils/pdfUtils';
+import ErrorNotice from './ErrorNotice';
+
+interface RoundupPanelProps {
+  revision: number; // bumped by the parent whenever the library changes
+  onCreated: (roundup: RoundupArticle, figures: ExtractedImage[]) => void;
+}
+
+const RoundupPanel: React.FC<RoundupPanelProps> = ({ revision, onCreated }) => {
+  const [open, setOpen] = useState(false);
+  const [papers, setPapers] = useState<ProjectSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<ScholarError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    listProjects()
+      .then(list => setPapers(list.filter(p => !p.roundup)))
+      .catch(e => setError(classifyError(e)));
+  }, [open, revision]);
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    try {
+      setProgress('Loading papers...');
+      const sources: RoundupSource[] = [];
+      for (const id of selected) {
+        const project = await getProject(id);
+        if (project && !isRoundup(project.article)) {
+          sources.push({ article: project.article as GeneratedArticle, document: project.document, figures: project.figures });
+        }
+      }
+      // Papers deleted since the list was loaded drop out here
+      if (sources.length < 2) {
+        throw new ScholarError('unknown', "A roundup needs at least two papers, but some of the selected ones are no longer in the library.", "Pick the papers again from the list.");
+      }
+      const roundup = await generateRoundup(sources, setProgress, controller.signal);
+      onCreated(roundup, sources.flatMap(s => s.figures));
+      setSelected([]);
+    } catch (e) {
+      if (!isAbortError(e)) setError(classifyError(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-xs text-gray-500 hover:text-gray-700"
+      >
+        <span>Weekly roundup: <span className="font-semibold text-gray-700">本周精选</span></span>
+        <span>{open ? '▲' : '🗞 Combine'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+          <p className="text-[10px] text-gray-500">
+            Pick two or more generated papers. New PDFs: upload them as a batch first — finished papers show up here.
+          </p>
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {papers.map(p => (
+              <li key={p.id}>
+                <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={selected.includes(p.id)} onChange={() => toggle(p.id)} className="mt-0.5" />
+                  <span className="truncate" title={p.title}>
+                    {p.title}
+                    <span className="text-[10px] text-gray-400"> {[p.journal, p.year].filter(Boolean).join(' ')}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+            {papers.length === 0 && <li className="text-[10px] text-gray-400 text-center py-2">No saved papers yet.</li>}
+          </ul>
+
+          {progress ? (
+            <div className="flex items-center gap-2">
+              <p className="flex-1 text-[10px] text-blue-700 animate-pulse">{progress}</p>
+              <button onClick={() => abortRef.current?.abort()} className="text-[10px] text-gray-500 hover:text-red-500">Cancel</button>
+            </div>
+          ) : (
+            <button
+              onClick={handleGenerate}
+              disabled={selected.length < 2}
+              className="w-full py-2 bg-wechat-primary text-white rounded-lg text-xs font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+            >
+              Generate roundup ({selected.length} papers)
+            </button>
+          )}
+          {error && <ErrorNotice error={error} compact />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoundupPanel;
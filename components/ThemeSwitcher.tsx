@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { ArticleTheme } from '../types';
+import {
+  BUILT_IN_THEMES, isBuiltInTheme, loadActiveThemeId, loadCustomThemes, parseThemeJson,
+  saveActiveThemeId, saveCustomThemes, serializeTheme
+} from '../utils/themes';
+import { downloadBlob } from '../utils/wechatExport';
+
+interface ThemeSwitcherProps {
+  theme: ArticleTheme;
+  onChange: (theme: ArticleTheme) => void;
+}
+
+const inputClass = "w-full text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-green-500 focus:border-green-500 bg-white text-gray-700";
+
+// The theme to start with: the last one picked, or classic if it no longer exists.
+export const initialTheme = (): ArticleTheme => {
+  const id = loadActiveThemeId();
+  return [...BUILT_IN_THEMES, ...loadCustomThemes()].find(t => t.id === id) ?? BUILT_IN_THEMES[0];
+};
+
+const ThemeSwitcher: React.FC<ThemeSwitcherProps> = ({ theme, onChange }) => {
+  const [customThemes, setCustomThemes] = useState<ArticleTheme[]>(() => loadCustomThemes());
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allThemes = [...BUILT_IN_THEMES, ...customThemes];
+  const isCustom = !isBuiltInTheme(theme.id);
+
+  const select = (next: ArticleTheme) => {
+    saveActiveThemeId(next.id);
+    onChange(next);
+  };
+
+  const storeCustom = (themes: ArticleTheme[]) => {
+    setCustomThemes(themes);
+    saveCustomThemes(themes);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseThemeJson(await file.text());
+      storeCustom([...customThemes.filter(t => t.id !== imported.id), imported]);
+      setImportError(null);
+      select(imported);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = () => {
+    storeCustom(customThemes.filter(t => t.id !== theme.id));
+    select(BUILT_IN_THEMES[0]);
+  };
+
+  // Editing a built-in saves a custom copy so the original stays intact.
+  const updateQrCode = (patch: Partial<NonNullable<ArticleTheme['qrCode']>>) => {
+    const qrCode = { imageUrl: '', caption: '', ...theme.qrCode, ...patch };
+    const next: ArticleTheme = {
+      ...theme,
+      id: isCustom ? theme.id : `custom-${Date.now().toString(36)}`,
+      name: isCustom ? theme.name : `${theme.name} (custom)`,
+      qrCode: qrCode.imageUrl || qrCode.caption ? qrCode : undefined
+    };
+    storeCustom(isCustom ? customThemes.map(t => (t.id === next.id ? next : t)) : [...customThemes, next]);
+    select(next);
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-2">Theme</label>
+      <div className="flex gap-2">
+        <select
+          value={theme.id}
+          onChange={(e) => select(allThemes.find(t => t.id === e.target.value) ?? BUILT_IN_THEMES[0])}
+          className={inputClass}
+        >
+          {allThemes.map(t => (
+            <option key={t.id} value={t.id}>{t.name}{isBuiltInTheme(t.id) ? '' : ' ★'}</option>
+          ))}
+        </select>
+        <span className="w-8 flex-shrink-0 rounded border border-gray-200" style={{ backgroundColor: theme.colors.primary }} title={theme.colors.primary} />
+      </div>
+
+      <div className="flex gap-3 mt-2 text-[10px]">
+        <button onClick={() => fileInputRef.current?.click()} className="text-gray-500 hover:text-green-600">Import JSON</button>
+        <button onClick={() => downloadBlob(new Blob([serializeTheme(theme)], { type: 'application/json' }), `${theme.id}.theme.json`)} className="text-gray-500 hover:text-green-600">Export JSON</button>
+        {isCustom && <button onClick={handleDelete} className="text-gray-500 hover:text-red-500">Delete</button>}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {importError && <p className="text-[10px] text-red-500 mt-1">{importError}</p>}
+
+      <details className="mt-2">
+        <summary className="text-[10px] text-gray-500 cursor-pointer">Footer QR code</summary>
+        <div className="mt-2 space-y-2">
+          <input value={theme.qrCode?.imageUrl || ''} onChange={(e) => updateQrCode({ imageUrl: e.target.value })} className={inputClass} placeholder="QR image URL" />
+          <input value={theme.qrCode?.caption || ''} onChange={(e) => updateQrCode({ caption: e.target.value })} className={inputClass} placeholder="Caption, e.g. 长按识别二维码关注" />
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ThemeSwitcher;
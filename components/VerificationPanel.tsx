@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ArticleDocument } from '../types';
+import { VerificationReport, checksForBlock, verificationReportMarkdown, verifyDocument } from '../utils/claimVerification';
+import { extractTextFromPdf } from '../utils/pdfUtils';
+import { downloadBlob } from '../utils/wechatExport';
+
+interface VerificationPanelProps {
+  file: File | null;
+  document: ArticleDocument | null; // the edited article
+  report: VerificationReport | null;
+  onReport: (report: VerificationReport) => void;
+}
+
+const VerificationPanel: React.FC<VerificationPanelProps> = ({ file, document, report, onReport }) => {
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    if (!file || !document) return;
+    setChecking(true);
+    setError(null);
+    try {
+      onReport(verifyDocument(document, await extractTextFromPdf(file)));
+    } catch (e) {
+      console.error("Verification failed", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Only what the current text still says; values edited away since the check drop out
+  const checks = report && document ? document.blocks.flatMap(block => checksForBlock(report, block)) : [];
+  const unsupported = checks.filter(c => c.page === null);
+
+  const scrollTo = (blockId: string) =>
+    window.document.querySelector(`[data-block-id="${blockId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <label className="block text-sm font-medium text-gray-700 mb-2">Fact Check</label>
+      <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+        <button
+          onClick={handleCheck}
+          disabled={!file || !document || checking}
+          className="w-full py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-xs font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50"
+          title={file ? undefined : 'Needs the PDF; roundups cannot be checked'}
+        >
+          {checking ? 'Reading the PDF...' : report ? '🔍 Check again' : '🔍 Check numbers & terms against the PDF'}
+        </button>
+        {error && <p className="text-[10px] text-red-500">{error}</p>}
+
+        {report && report.pagesWithText === 0 && (
+          <p className="text-[10px] text-amber-600">The PDF has no text layer (scanned?), so nothing could be checked.</p>
+        )}
+        {report && report.pagesWithText > 0 && (
+          <>
+            <p className="text-xs text-gray-600">
+              {checks.length} checked · <span className="text-green-700">{checks.length - unsupported.length} found</span>
+              {' · '}<span className={unsupported.length ? 'text-amber-700 font-semibold' : ''}>{unsupported.length} not found</span>
+            </p>
+            {unsupported.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {unsupported.map(c => (
+                  <li key={`${c.blockId}-${c.text}`}>
+                    <button onClick={() => scrollTo(c.blockId)} className="w-full text-left text-[11px] text-amber-800 hover:underline truncate">
+                      ⚠ {c.text} <span className="text-gray-400">({c.kind})</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={() => downloadBlob(new Blob([verificationReportMarkdown(report, document!)], { type: 'text/markdown;charset=utf-8' }), 'verification-report.md')}
+              className="text-[10px] text-indigo-600 hover:underline"
+            >
+              ⬇ Download report
+            </button>
+          </>
+        )}
+        <p className="text-[10px] text-gray-400">
+          Finds each number and English term of the article in the PDF text. Found means the paper mentions it, not that it is used correctly; derived values (differences, ratios) show as not found.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationPanel;
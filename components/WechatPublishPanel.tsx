@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { AnyArticle } from '../types';
+import { ScholarError, classifyError } from '../services/errors';
+import { PublishResult, WechatConfig, checkWechatLimits, loadWechatConfig, publishDraft, saveWechatConfig } from '../services/wechatPublisher';
+import { ExportedImage, WechatExportResult, extensionFor } from '../utils/wechatExport';
+import ErrorNotice from './ErrorNotice';
+
+interface WechatPublishPanelProps {
+  article: AnyArticle;
+  title: string; // the edited title, which may differ from the generated one
+  coverImageUrl?: string;
+  getExport: () => Promise<WechatExportResult | null>;
+}
+
+const inputClass = "w-full text-xs p-2 border border-gray-300 rounded focus:ring-1 focus:ring-green-500 focus:border-green-500 bg-white text-gray-700";
+
+// The draft cover must be uploaded on its own; fall back to the first article image.
+const resolveCover = async (coverImageUrl: string | undefined, exported: WechatExportResult): Promise<ExportedImage | null> => {
+  if (coverImageUrl) {
+    const blob = await (await fetch(coverImageUrl)).blob();
+    return { fileName: `cover.${extensionFor(blob.type)}`, blob };
+  }
+  return exported.images[0] ?? null;
+};
+
+const WechatPublishPanel: React.FC<WechatPublishPanelProps> = ({ article, title, coverImageUrl, getExport }) => {
+  const [config, setConfig] = useState<WechatConfig>(() => loadWechatConfig());
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [result, setResult] = useState<PublishResult | null>(null);
+  const [error, setError] = useState<ScholarError | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]); // size / format problems found before the last publish
+
+  const update = (patch: Partial<WechatConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveWechatConfig(next);
+  };
+
+  // Stops at the first click when something is over WeChat's limits; a second click publishes anyway.
+  const handlePublish = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const exported = await getExport();
+      if (!exported) return;
+      const cover = await resolveCover(coverImageUrl, exported);
+      if (!cover) {
+        throw new ScholarError('invalid-output', "A draft needs a cover image", "Generate a cover or insert a figure first.");
+      }
+      const found = checkWechatLimits(exported, cover);
+      setWarnings(found);
+      if (found.length > 0 && warnings.length === 0) return;
+      setResult(await publishDraft(config, article, title, exported, cover, setProgress));
+    } catch (e) {
+      setError(classifyError(e));
+    } finally {
+      setBusy(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <label className="block text-sm font-medium text-gray-700 mb-2">3. Publish to WeChat Draft (草稿箱)</label>
+      <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+        <input value={config.appId} onChange={(e) => update({ appId: e.target.value })} className={inputClass} placeholder="AppID" />
+        <input type="password" value={config.appSecret} onChange={(e) => update({ appSecret: e.target.value })} className={inputClass} placeholder="AppSecret" />
+        <input value={config.author || ''} onChange={(e) => update({ author: e.target.value })} className={inputClass} placeholder="Author (optional, max 16 chars)" />
+        <input value={config.apiBase} onChange={(e) => update({ apiBase: e.target.value })} className={inputClass} placeholder="API base, e.g. /wechat-api or http://localhost:8787" />
+
+        <button
+          onClick={handlePublish}
+          disabled={busy || !config.appId || !config.appSecret}
+          className="w-full py-2 bg-wechat-primary text-white rounded-lg text-xs font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+        >
+          {busy ? (progress || 'Publishing...') : warnings.length > 0 ? 'Create Draft Anyway' : 'Create Draft'}
+        </button>
+
+        {warnings.length > 0 && (
+          <div className="text-[10px] text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 space-y-1">
+            <p className="font-semibold">WeChat will likely reject this draft:</p>
+            {warnings.map((w, i) => <p key={i}>• {w}</p>)}
+            <p>Lower the image max width or quality (🖼 Compression), re-crop the figures and regenerate the cover.</p>
+          </div>
+        )}
+
+        {error && <ErrorNotice error={error} compact />}
+
+        {result && (
+          <div className="text-[10px] text-gray-600 bg-white border border-green-200 rounded p-2 space-y-1 break-all">
+            <p className="text-green-700 font-semibold text-xs">Draft created ✓</p>
+            <p><span className="font-semibold">Draft media_id:</span> {result.draftMediaId}</p>
+            <p><span className="font-semibold">Cover media_id:</span> {result.coverMediaId}</p>
+            {Object.entries(result.imageUrls).map(([fileName, url]) => (
+              <p key={fileName}><span className="font-semibold">{fileName}:</span> {url}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WechatPublishPanel;
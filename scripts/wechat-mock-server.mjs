@@ -0,0 +1,132 @@
+// Local stand-in for the WeChat Official Account API, for exercising the draft
+// publishing flow without a real account.
+//
+//   npm run mock:wechat            # listens on http://localhost:8787
+//   AppID "mock-appid", AppSecret "mock-secret"
+//
+// Any other credentials return errcode 40125. Tokens expire after TOKEN_TTL
+// seconds so the refresh path can be tested (errcode 42001).
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const APP_ID = process.env.MOCK_APPID || 'mock-appid';
+const APP_SECRET = process.env.MOCK_SECRET || 'mock-secret';
+const TOKEN_TTL = Number(process.env.TOKEN_TTL || 7200);
+const MAX_IMAGE_BYTES = 1024 * 1024; // uploadimg limit
+const MAX_MATERIAL_BYTES = 10 * 1024 * 1024;
+
+const tokens = new Map(); // token -> expiresAt
+const materials = new Map(); // media_id -> { url, bytes }
+const drafts = new Map(); // media_id -> articles
+
+const send = (res, body, status = 200) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const error = (res, errcode, errmsg) => send(res, { errcode, errmsg });
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', c => chunks.push(c));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Returns the size of the "media" part of a multipart upload, or -1 if absent.
+const mediaPartSize = (req, body) => {
+  const boundary = /boundary=(.+)$/.exec(req.headers['content-type'] || '')?.[1];
+  if (!boundary) return -1;
+  const text = body.toString('latin1');
+  const start = text.indexOf('name="media"');
+  if (start < 0) return -1;
+  const dataStart = text.indexOf('\r\n\r\n', start) + 4;
+  const dataEnd = text.indexOf(`\r\n--${boundary}`, dataStart);
+  return dataEnd - dataStart;
+};
+
+const checkToken = (res, url) => {
+  const token = url.searchParams.get('access_token');
+  const expiresAt = tokens.get(token);
+  if (!expiresAt) {
+    error(res, 40001, 'invalid credential, access_token is invalid or not latest');
+    return false;
+  }
+  if (expiresAt < Date.now()) {
+    error(res, 42001, 'access_token expired');
+    return false;
+  }
+  return true;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname.replace(/^\/wechat-api/, '');
+  if (req.method === 'OPTIONS') return send(res, {});
+
+  const body = await readBody(req);
+  console.log(`${req.method} ${path} (${body.length} bytes)`);
+
+  switch (path) {
+    case '/cgi-bin/token': {
+      if (url.searchParams.get('appid') !== APP_ID) return error(res, 40013, 'invalid appid');
+      if (url.searchParams.get('secret') !== APP_SECRET) return error(res, 40125, 'invalid appsecret');
+      const token = `mock-token-${randomUUID()}`;
+      tokens.set(token, Date.now() + TOKEN_TTL * 1000);
+      return send(res, { access_token: token, expires_in: TOKEN_TTL });
+    }
+
+    case '/cgi-bin/media/uploadimg': {
+      if (!checkToken(res, url)) return;
+      const size = mediaPartSize(req, body);
+      if (size < 0) return error(res, 41005, 'media data missing');
+      if (size > MAX_IMAGE_BYTES) return error(res, 45001, 'media size out of limit');
+      return send(res, { url: `http://mmbiz.qpic.cn/mock/${randomUUID()}/0` });
+    }
+
+    case '/cgi-bin/material/add_material': {
+      if (!checkToken(res, url)) return;
+      if (url.searchParams.get('type') !== 'image') return error(res, 40004, 'invalid media type');
+      const size = mediaPartSize(req, body);
+      if (size < 0) return error(res, 41005, 'media data missing');
+      if (size > MAX_MATERIAL_BYTES) return error(res, 45001, 'media size out of limit');
+      const mediaId = `mock-media-${randomUUID()}`;
+      const materialUrl = `http://mmbiz.qpic.cn/mock/${mediaId}/0`;
+      materials.set(mediaId, { url: materialUrl, bytes: size });
+      return send(res, { media_id: mediaId, url: materialUrl });
+    }
+
+    case '/cgi-bin/draft/add': {
+      if (!checkToken(res, url)) return;
+      let payload;
+      try {
+        payload = JSON.parse(body.toString('utf8'));
+      } catch {
+        return error(res, 44002, 'empty post data');
+      }
+      const article = payload?.articles?.[0];
+      if (!article?.title || !article?.content) return error(res, 44003, 'empty news data');
+      if (!materials.has(article.thumb_media_id)) return error(res, 40007, 'invalid media_id');
+      if (article.title.length > 64) return error(res, 45003, 'title size out of limit');
+      if ((article.digest || '').length > 120) return error(res, 45004, 'description size out of limit');
+      if ((article.author || '').length > 16) return error(res, 45110, 'author size out of limit');
+      if (article.content.length > 20000) return error(res, 45002, 'content size out of limit');
+      const mediaId = `mock-draft-${randomUUID()}`;
+      drafts.set(mediaId, payload.articles);
+      return send(res, { media_id: mediaId });
+    }
+
+    default:
+      return send(res, { errcode: 404, errmsg: `unknown endpoint ${path}` }, 404);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`WeChat mock API listening on http://localhost:${PORT}`);
+});
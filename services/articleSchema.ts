@@ -0,0 +1,110 @@
+import { Schema, Type } from "@google/genai";
+import { OutputLanguage, PromptProfile } from "../types";
+
+const sectionNumber = (index: number) => String(index + 1).padStart(2, "0");
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, { label: string; prompt: string }> = {
+  "zh-CN": { label: "简体中文", prompt: "Simplified Chinese (简体中文)" },
+  "zh-TW": { label: "繁體中文", prompt: "Traditional Chinese (繁體中文) as used in Taiwan, with Taiwanese terminology" },
+  en: { label: "English", prompt: "English" },
+  ja: { label: "日本語", prompt: "Japanese (日本語)" }
+};
+
+export interface ArticleLanguageOptions {
+  language?: OutputLanguage;
+  bilingual?: boolean; // every section also carries the paper's original text
+}
+
+// Shared between every provider so the same GeneratedArticle shape is requested
+// regardless of which backend produces it; the descriptions come from the profile.
+export const buildArticleSchema = (profile: PromptProfile, { bilingual = false }: ArticleLanguageOptions = {}): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: `Strict format: '${profile.titlePattern}'. ${profile.fields.title}`.trim()
+    },
+    summary: { type: Type.STRING, description: profile.fields.summary },
+    coverImagePrompt: { type: Type.STRING, description: "Abstract art description for cover. STRICTLY NO TEXT descriptions." },
+    sections: {
+      type: Type.ARRAY,
+      description: `Exactly ${profile.sections.length} sections, in this order: ${profile.sections.map(s => s.title).join(", ")}.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: {
+            type: Type.STRING,
+            description: `Section title, numbered: ${profile.sections.map((s, i) => `'${sectionNumber(i)} ${s.title}'`).join(", ")}.`
+          },
+          content: { type: Type.STRING, description: profile.fields.content },
+          ...(bilingual ? {
+            originalContent: {
+              type: Type.STRING,
+              description: "The same passage in the paper's own language, usually English: one paragraph per paragraph of `content`, in the same order, one per line. Quote or closely paraphrase the paper."
+            }
+          } : {}),
+          sources: {
+            type: Type.ARRAY,
+            description: "Where the paragraphs of `content` come from in the paper: at least one entry per paragraph.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                paragraph: { type: Type.INTEGER, description: "1-based number of the paragraph in `content`." },
+                page: { type: Type.INTEGER, description: "1-based PDF page of the supporting passage." },
+                quote: { type: Type.STRING, description: "The supporting passage copied verbatim from that page, in the paper's language, at most 30 words." }
+              },
+              required: ["paragraph", "page", "quote"]
+            }
+          },
+          highlight: { type: Type.STRING, description: profile.fields.highlight },
+          englishTerms: { type: Type.ARRAY, items: { type: Type.STRING } },
+          suggestedFigureLocation: { type: Type.STRING, description: "Exact label of the figure relevant here, e.g., 'Figure 1', 'Figure 3'. If none, empty string." },
+          suggestedTableLocation: { type: Type.STRING, description: "Exact label of the results table relevant here, e.g., 'Table 1', 'Table 2'. Mostly for the experiments section. If none, empty string." }
+        },
+        required: bilingual ? ["title", "content", "originalContent"] : ["title", "content"]
+      }
+    },
+    meta: {
+      type: Type.OBJECT,
+      properties: {
+        authors: { type: Type.STRING },
+        journal: { type: Type.STRING },
+        year: { type: Type.STRING },
+        link: { type: Type.STRING }
+      },
+      required: ["authors"]
+    }
+  },
+  required: ["title", "sections", "meta", "summary"]
+});
+
+// The profile's own instructions followed by the structure it defines. Simplified
+// Chinese is what the profiles are written for; other languages are asked for on top.
+export const buildArticleInstructions = (profile: PromptProfile, { language = "zh-CN", bilingual = false }: ArticleLanguageOptions = {}) => `
+  ${profile.instructions.trim()}
+
+  **Structure Guidelines**:
+  1.  **Title**: MUST strictly follow the format: "${profile.titlePattern}".
+${profile.sections.map((section, i) => `  ${i + 2}.  **Section ${i + 1} (${sectionNumber(i)} ${section.title})**: ${section.guidance}`).join("\n")}
+${language === "zh-CN" ? "" : `
+  **Output Language (overrides any language rule above)**: Write every text field in ${OUTPUT_LANGUAGES[language].prompt}, including the title prefix and the section titles above, which you translate. Keep specific technical terms in English where that is usual.
+`}${bilingual ? `
+  **Bilingual Mode**: For every section also fill \`originalContent\` with the same passage in the paper's own language, paragraph for paragraph, so readers can compare the two line by line. It must have exactly as many paragraphs as \`content\`.
+` : ""}`;
+
+// Converts the Gemini schema dialect (upper-case Type enum) into standard JSON Schema
+// for OpenAI-compatible `response_format` payloads.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
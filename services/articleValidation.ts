@@ -0,0 +1,267 @@
+import { Schema, Type } from "@google/genai";
+import { InvalidOutputError } from "./errors";
+
+export interface SchemaIssue {
+  path: string; // e.g. "meta.authors", "sections[2].content"
+  problem: 'missing' | 'wrong-type' | 'unparseable';
+  expected?: string;
+}
+
+export class SchemaValidationError extends InvalidOutputError {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Model output failed schema validation: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssue = (issue: SchemaIssue) => {
+  switch (issue.problem) {
+    case 'missing':
+      return `${issue.path} is missing`;
+    case 'wrong-type':
+      return `${issue.path} should be ${issue.expected}`;
+    default:
+      return `${issue.path || 'response'} is not valid JSON`;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// --- Validation ---------------------------------------------------------------
+
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = ''): SchemaIssue[] => {
+  const expected = (schema.type || Type.STRING).toLowerCase();
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return [{ path, problem: 'wrong-type', expected }];
+      const issues: SchemaIssue[] = [];
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) {
+          issues.push({ path: joinPath(path, key), problem: 'missing' });
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          issues.push(...validateAgainstSchema(value[key], child, joinPath(path, key)));
+        }
+      }
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [{ path, problem: 'wrong-type', expected }];
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return typeof value === 'number' ? [] : [{ path, problem: 'wrong-type', expected }];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [{ path, problem: 'wrong-type', expected }];
+    default:
+      return typeof value === 'string' ? [] : [{ path, problem: 'wrong-type', expected }];
+  }
+};
+
+// --- Repair -------------------------------------------------------------------
+
+/**
+ * Recovers a parseable JSON document from model output that was wrapped in
+ * markdown fences or cut off mid-stream. Truncated output is trimmed back to the
+ * last complete value and the open brackets are closed.
+ */
+const stripFences = (raw: string) => {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = text.search(/[{[]/);
+  return start > 0 ? text.slice(start) : text;
+};
+
+export const repairJsonText = (raw: string): string => {
+  const text = stripFences(raw);
+
+  try {
+    JSON.parse(text);
+    return text;
+  } catch {
+    // fall through to truncation repair
+  }
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = 0;
+  let safeClosers: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      closers.push(c === '{' ? '}' : ']');
+      safeEnd = i + 1;
+      safeClosers = [...closers];
+    } else if (c === '}' || c === ']') {
+      closers.pop();
+      safeEnd = i + 1;
+      safeClosers = [...closers];
+    } else if (c === ',') {
+      // Everything before a separator is a complete value.
+      safeEnd = i;
+      safeClosers = [...closers];
+    }
+  }
+
+  return text.slice(0, safeEnd) + safeClosers.reverse().join('');
+};
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed. Unlike
+ * repairJsonText it keeps the partially written string at the end, so text
+ * appears in the preview as it arrives. Returns undefined if nothing is usable yet.
+ */
+export const parsePartialJson = (raw: string): unknown => {
+  const text = stripFences(raw);
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1; // start of the current object key, while its value is incomplete
+  let afterColon = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+      if (stack[stack.length - 1] === '{' && !afterColon) keyStart = i;
+    } else if (c === '{' || c === '[') {
+      stack.push(c);
+      keyStart = -1;
+      afterColon = false;
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+      keyStart = -1;
+      afterColon = false;
+    } else if (c === ':') {
+      afterColon = true;
+    } else if (c === ',') {
+      keyStart = -1;
+      afterColon = false;
+    }
+  }
+
+  let completed = text;
+  const inObject = stack[stack.length - 1] === '{';
+  const valueMissing = afterColon && /:\s*$/.test(text);
+  if (inObject && keyStart >= 0 && (!afterColon || valueMissing)) {
+    // A key without its value: drop it.
+    completed = text.slice(0, keyStart);
+  } else if (inString) {
+    completed = text.replace(/\\$/, '') + '"';
+  }
+  completed = completed.replace(/[\s,]+$/, '');
+  completed += stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+
+  try {
+    return JSON.parse(completed);
+  } catch {
+    try {
+      return JSON.parse(repairJsonText(text));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Fixes issues that do not need the model: optional arrays default to [], scalars
+ * are coerced to strings, numeric strings to numbers, comma-separated strings
+ * become string arrays, and nulls are dropped. Unknown shapes are left as-is for the validator to report.
+ */
+export const coerceToSchema = (value: unknown, schema: Schema): unknown => {
+  if (value === null) return undefined;
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return value;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        const coerced = coerceToSchema(value[key], child);
+        if (coerced === undefined && child.type === Type.ARRAY && !schema.required?.includes(key)) {
+          result[key] = [];
+        } else if (coerced === undefined) {
+          delete result[key];
+        } else {
+          result[key] = coerced;
+        }
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      if (value === undefined) return undefined;
+      if (typeof value === 'string' && schema.items?.type === Type.STRING) {
+        return value.split(/[,，;；]/).map(s => s.trim()).filter(Boolean);
+      }
+      if (!Array.isArray(value)) return value;
+      return value
+        .map(item => (schema.items ? coerceToSchema(item, schema.items) : item))
+        .filter(item => item !== undefined);
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case Type.STRING: {
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join(', ');
+      return value;
+    }
+    default:
+      return value;
+  }
+};
+
+export interface ParsedResponse<T> {
+  value: T | undefined;
+  issues: SchemaIssue[];
+}
+
+// Parses, repairs and validates raw model output in one step.
+export const parseAndRepair = <T>(raw: string, schema: Schema): ParsedResponse<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(repairJsonText(raw));
+  } catch {
+    return { value: undefined, issues: [{ path: '', problem: 'unparseable' }] };
+  }
+  const value = coerceToSchema(parsed, schema);
+  return { value: value as T, issues: validateAgainstSchema(value, schema) };
+};
+
+// Top-level property names touched by a list of issues, e.g. "sections[2].content" -> "sections".
+export const topLevelKeys = (issues: SchemaIssue[]): string[] =>
+  Array.from(new Set(issues.map(issue => issue.path.split(/[.[]/)[0]).filter(Boolean)));
+
+// A copy of an object schema restricted to the given properties.
+export const pickSchemaProperties = (schema: Schema, keys: string[]): Schema => ({
+  ...schema,
+  properties: Object.fromEntries(
+    Object.entries(schema.properties || {}).filter(([key]) => keys.includes(key))
+  ),
+  required: (schema.required || []).filter(key => keys.includes(key))
+});
@@ -0,0 +1,143 @@
+import { ProcessingState } from "../types";
+import { ScholarError, classifyError, isAbortError } from "./errors";
+
+export interface BatchJob<R> {
+  id: string;
+  file: File;
+  status: ProcessingState; // IDLE = waiting in the queue
+  paused: boolean; // skipped by the scheduler until resumed
+  message: string;
+  result?: R;
+  error?: ScholarError;
+}
+
+export type BatchJobRunner<R> = (
+  file: File,
+  signal: AbortSignal,
+  onProgress: (status: ProcessingState, message: string) => void
+) => Promise<R>;
+
+export interface BatchQueue<R> {
+  add: (files: File[]) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  setConcurrency: (concurrency: number) => void;
+  getJobs: () => BatchJob<R>[];
+  dispose: () => void;
+}
+
+const isActive = (job: BatchJob<unknown>) =>
+  job.status === ProcessingState.READING || job.status === ProcessingState.GENERATING;
+
+/**
+ * A FIFO of papers processed `concurrency` at a time. Pausing a running job
+ * aborts it; resuming puts it back in line from the start. `onChange` receives
+ * a fresh snapshot after every state change.
+ */
+export const createBatchQueue = <R>(
+  runner: BatchJobRunner<R>,
+  onChange: (jobs: BatchJob<R>[]) => void,
+  initialConcurrency = 2
+): BatchQueue<R> => {
+  let jobs: BatchJob<R>[] = [];
+  let concurrency = initialConcurrency;
+  let disposed = false;
+  const controllers = new Map<string, AbortController>();
+
+  const emit = () => {
+    if (!disposed) onChange(jobs.map(job => ({ ...job })));
+  };
+
+  const update = (id: string, patch: Partial<BatchJob<R>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    emit();
+  };
+
+  const find = (id: string) => jobs.find(job => job.id === id);
+
+  const start = async (job: BatchJob<R>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: ProcessingState.READING, message: 'Starting...', error: undefined });
+
+    try {
+      const result = await runner(job.file, controller.signal, (status, message) => {
+        if (!controller.signal.aborted) update(job.id, { status, message });
+      });
+      if (!controller.signal.aborted) update(job.id, { status: ProcessingState.COMPLETE, message: 'Done', result });
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        // Paused or removed; `pause` already set the state.
+      } else {
+        update(job.id, { status: ProcessingState.ERROR, message: 'Failed', error: classifyError(error) });
+      }
+    } finally {
+      // A quick pause + resume may already have started a new run for this job.
+      if (controllers.get(job.id) === controller) controllers.delete(job.id);
+      schedule();
+    }
+  };
+
+  const schedule = () => {
+    if (disposed) return;
+    let running = jobs.filter(isActive).length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status === ProcessingState.IDLE && !job.paused) {
+        running++;
+        start(job);
+      }
+    }
+  };
+
+  return {
+    add: (files) => {
+      jobs = [
+        ...jobs,
+        ...files.map(file => ({
+          id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+          file,
+          status: ProcessingState.IDLE,
+          paused: false,
+          message: 'Queued'
+        }))
+      ];
+      emit();
+      schedule();
+    },
+    pause: (id) => {
+      const job = find(id);
+      if (!job || job.status === ProcessingState.COMPLETE) return;
+      controllers.get(id)?.abort();
+      update(id, { paused: true, status: ProcessingState.IDLE, message: 'Paused' });
+    },
+    resume: (id) => {
+      if (!find(id)?.paused) return;
+      update(id, { paused: false, message: 'Queued' });
+      schedule();
+    },
+    retry: (id) => {
+      if (find(id)?.status !== ProcessingState.ERROR) return;
+      update(id, { status: ProcessingState.IDLE, paused: false, message: 'Queued', error: undefined });
+      schedule();
+    },
+    remove: (id) => {
+      controllers.get(id)?.abort();
+      jobs = jobs.filter(job => job.id !== id);
+      emit();
+      schedule();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      schedule();
+    },
+    getJobs: () => jobs,
+    dispose: () => {
+      disposed = true;
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    }
+  };
+};
@@ -0,0 +1,136 @@
+export type ErrorKind = 'auth' | 'rate-limit' | 'safety-blocked' | 'invalid-output' | 'network' | 'pdf-parse' | 'unknown';
+
+/**
+ * Base class for every failure surfaced to the UI. `retryable` marks transient
+ * causes that withRetry may try again; `suggestion` is shown to the user.
+ */
+export class ScholarError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+  readonly suggestion: string;
+
+  constructor(kind: ErrorKind, message: string, suggestion: string, retryable = false, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ScholarError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.suggestion = suggestion;
+  }
+}
+
+export class AuthError extends ScholarError {
+  constructor(message = "The API key was rejected.", options?: { cause?: unknown }) {
+    super('auth', message, "Check the API key in the Model settings (or GEMINI_API_KEY in .env.local).", false, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ScholarError {
+  readonly retryAfterMs?: number;
+
+  constructor(message = "Rate limit or quota exceeded.", retryAfterMs?: number, options?: { cause?: unknown }) {
+    super('rate-limit', message, "Wait a minute and try again, or check the quota / billing of your API project.", true, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockedError extends ScholarError {
+  constructor(message = "The response was blocked by the model's safety filters.", options?: { cause?: unknown }) {
+    super('safety-blocked', message, "Try again, or switch to another model in the settings; some papers trigger filters on medical or security topics.", false, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidOutputError extends ScholarError {
+  constructor(message = "The model returned output that could not be used.", options?: { cause?: unknown }) {
+    super('invalid-output', message, "Generate again. For long papers, the \"Long paper\" mode produces more reliable output.", false, options);
+    this.name = 'InvalidOutputError';
+  }
+}
+
+export class NetworkError extends ScholarError {
+  constructor(message = "Could not reach the model service.", options?: { cause?: unknown }) {
+    super('network', message, "Check your internet connection, proxy, or that the local model server is running.", true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class PdfParseError extends ScholarError {
+  constructor(message = "The PDF could not be read.", options?: { cause?: unknown }) {
+    super('pdf-parse', message, "Make sure the file is a valid, unencrypted PDF. Scanned PDFs without a text layer only work with Gemini.", false, options);
+    this.name = 'PdfParseError';
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError' ||
+  (error instanceof Error && error.name === 'AbortError');
+
+// Maps an HTTP status from any provider onto the hierarchy.
+export const errorFromHttpStatus = (status: number, message: string, retryAfterMs?: number): ScholarError => {
+  if (status === 401 || status === 403) return new AuthError(message);
+  if (status === 429) return new RateLimitError(message, retryAfterMs);
+  if (status >= 500) return new ScholarError('network', message, "The model service is having problems; try again shortly.", true);
+  if (status === 400 && /api key/i.test(message)) return new AuthError(message);
+  return new ScholarError('unknown', message, "Try again. If the problem persists, check the browser console for details.");
+};
+
+export const classifyError = (error: unknown): ScholarError => {
+  if (error instanceof ScholarError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  if (status !== undefined) return errorFromHttpStatus(status, message);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new RateLimitError(message, undefined, { cause: error });
+  if (/API key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new AuthError(message, { cause: error });
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new NetworkError(message, { cause: error });
+  if (error instanceof SyntaxError) return new InvalidOutputError(message, { cause: error });
+
+  return new ScholarError('unknown', message, "Try again. If the problem persists, check the browser console for details.", false, { cause: error });
+};
+
+export const describeRetry = (error: ScholarError, attempt: number, delayMs: number) =>
+  `${error.kind === 'rate-limit' ? 'Rate limited' : 'Connection problem'}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...`;
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: ScholarError, attempt: number, delayMs: number) => void;
+}
+
+// The abort listener goes when the timer fires, so retries on a long-lived signal do not pile up.
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retries transient failures with exponential backoff and jitter; everything else is thrown classified.
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1500, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= retries) throw classified;
+
+      const backoff = baseDelayMs * 2 ** attempt + Math.random() * 500;
+      const delayMs = classified instanceof RateLimitError && classified.retryAfterMs ? Math.max(classified.retryAfterMs, backoff) : backoff;
+      onRetry?.(classified, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
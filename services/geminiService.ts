@@ -1,148 +1,195 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedArticle } from "../types";
-
-// Helper to initialize the client securely
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
+import { Schema } from "@google/genai";
+import { CoverAspect, CoverImageSize, CoverStyle, GeneratedArticle, GenerationMode, PromptProfile } from "../types";
+import { fileToBase64 } from "../utils/fileUtils";
+import { PdfPageText, extractTextFromPdf, formatPagesForPrompt } from "../utils/pdfUtils";
+import { ArticleLanguageOptions, buildArticleInstructions, buildArticleSchema } from "./articleSchema";
+import { SchemaValidationError, formatIssue, parseAndRepair, parsePartialJson, pickSchemaProperties, topLevelKeys, SchemaIssue } from "./articleValidation";
+import { classifyError, describeRetry, isAbortError } from "./errors";
+import { LONG_PAPER_PAGE_THRESHOLD, summarizeLongPaper } from "./longPaperPipeline";
+import { DEFAULT_PROFILE } from "./promptProfiles";
+import { DocumentInput, LlmProvider, getActiveProvider } from "./providers";
+
+export interface GenerateArticleOptions extends ArticleLanguageOptions {
+  mode?: GenerationMode;
+  profile?: PromptProfile; // instructions, sections and title format; the default 文献分享 one if absent
+  signal?: AbortSignal;
+  // Called with a renderable article while the response is still streaming.
+  onPartial?: (article: GeneratedArticle) => void;
+}
+
+// PDF-native models get the file inline; the rest read the pdf.js text.
+// Long papers are first condensed part by part (see longPaperPipeline).
+export const prepareDocument = async (
+  provider: LlmProvider,
+  file: File,
+  mode: GenerationMode,
+  onProgress: (status: string) => void,
+  signal?: AbortSignal
+): Promise<DocumentInput> => {
+  let pages: PdfPageText[] | undefined;
+  if (!provider.acceptsPdf || mode !== 'single') {
+    onProgress("Extracting text from PDF...");
+    pages = await extractTextFromPdf(file);
+  }
+
+  if (pages && (mode === 'staged' || (mode === 'auto' && pages.length > LONG_PAPER_PAGE_THRESHOLD))) {
+    return summarizeLongPaper(provider, pages, onProgress, signal);
   }
-  return new GoogleGenAI({ apiKey });
+
+  onProgress(`Deep reading with ${provider.label} (Academic Mode)...`);
+  if (provider.acceptsPdf) {
+    return { base64Pdf: await fileToBase64(file) };
+  }
+  return { text: formatPagesForPrompt(pages!) };
 };
 
-export const generateArticleFromPdf = async (
-  base64Pdf: string,
-  onProgress: (status: string) => void
+// One targeted re-prompt: the model only regenerates the top-level fields that
+// failed validation, and the answer is merged over the repaired article.
+const repairInvalidFields = async (
+  provider: LlmProvider,
+  document: DocumentInput,
+  instructions: string,
+  schema: Schema,
+  draft: unknown,
+  issues: SchemaIssue[],
+  signal?: AbortSignal,
+  onProgress?: (status: string) => void
 ): Promise<GeneratedArticle> => {
-  const ai = getAiClient();
-  
-  onProgress("Deep reading with Gemini 3 Pro (Academic Mode)...");
-
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      title: { 
-        type: Type.STRING, 
-        description: "Strict format: '文献分享 | [Conference/Journal Name] [Chinese Translation of Paper Title]'. Example: '文献分享 | CVPR 2024 基于扩散模型的高效图像生成'. If Conference is unknown, use '学术前沿'." 
-      },
-      summary: { type: Type.STRING, description: "Academic abstract style summary. Concise, objective, focusing strictly on the research gap, method, and results. No marketing fluff." },
-      coverImagePrompt: { type: Type.STRING, description: "Abstract art description for cover. STRICTLY NO TEXT descriptions." },
-      sections: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING, description: "Section title (e.g. '01 研究背景', '02 研究方法')." },
-            content: { type: Type.STRING, description: "Rigorous academic text. Use **bold** for key metrics/terms. Tone should be calm and objective." },
-            highlight: { type: Type.STRING, description: "Key academic contribution or insight." },
-            englishTerms: { type: Type.ARRAY, items: { type: Type.STRING } },
-            suggestedFigureLocation: { type: Type.STRING, description: "Exact label of the figure relevant here, e.g., 'Figure 1', 'Figure 3'. If none, empty string." }
-          },
-          required: ["title", "content"]
-        }
-      },
-      meta: {
-        type: Type.OBJECT,
-        properties: {
-          authors: { type: Type.STRING },
-          journal: { type: Type.STRING },
-          year: { type: Type.STRING },
-          link: { type: Type.STRING }
-        },
-        required: ["authors"]
-      }
-    },
-    required: ["title", "sections", "meta", "summary"]
+  const draftObject = typeof draft === 'object' && draft !== null && !Array.isArray(draft) ? draft : {};
+  const failedKeys = topLevelKeys(issues);
+  const keys = failedKeys.length > 0 ? failedKeys : Object.keys(schema.properties || {});
+  const patchSchema = pickSchemaProperties(schema, keys);
+  const text = await provider.generateStructured({
+    document,
+    instructions: `${instructions}
+
+      **Correction Request**: A previous answer for this paper was invalid:
+      ${issues.map(issue => `- ${formatIssue(issue)}`).join('\n')}
+
+      Previous answer:
+      ${JSON.stringify(draft ?? null)}
+
+      Return a JSON object containing ONLY these fields, fully corrected: ${keys.join(', ')}.
+    `,
+    schema: patchSchema,
+    signal,
+    onRetry: (error, attempt, delayMs) => onProgress?.(describeRetry(error, attempt, delayMs))
+  });
+
+  const patch = parseAndRepair<Record<string, unknown>>(text, patchSchema);
+  const merged = parseAndRepair<GeneratedArticle>(JSON.stringify({ ...draftObject, ...patch.value }), schema);
+  if (merged.issues.length > 0) {
+    throw new SchemaValidationError(merged.issues);
+  }
+  return merged.value!;
+};
+
+// Fills the gaps of a half-streamed article so ArticleRenderer can display it.
+const toPreviewArticle = (partial: unknown): GeneratedArticle | undefined => {
+  if (typeof partial !== 'object' || partial === null || Array.isArray(partial)) return undefined;
+  const draft = partial as Partial<GeneratedArticle>;
+  return {
+    title: typeof draft.title === 'string' ? draft.title : '',
+    summary: typeof draft.summary === 'string' ? draft.summary : '',
+    coverImagePrompt: typeof draft.coverImagePrompt === 'string' ? draft.coverImagePrompt : undefined,
+    sections: (Array.isArray(draft.sections) ? draft.sections : [])
+      .filter(section => typeof section?.title === 'string')
+      .map(section => ({
+        ...section,
+        content: typeof section.content === 'string' ? section.content : '',
+        originalContent: typeof section.originalContent === 'string' ? section.originalContent : undefined,
+        englishTerms: Array.isArray(section.englishTerms) ? section.englishTerms.filter(t => typeof t === 'string') : undefined
+      })),
+    meta: {
+      ...draft.meta,
+      authors: typeof draft.meta?.authors === 'string' ? draft.meta.authors : ''
+    }
   };
+};
+
+export const generateArticleFromPdf = async (
+  file: File,
+  onProgress: (status: string) => void,
+  options: GenerateArticleOptions = {}
+): Promise<GeneratedArticle> => {
+  const { mode = 'auto', profile = DEFAULT_PROFILE, language = 'zh-CN', bilingual = false, signal, onPartial } = options;
+  const provider = getActiveProvider();
+  const instructions = buildArticleInstructions(profile, { language, bilingual });
+  const schema = buildArticleSchema(profile, { bilingual });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "application/pdf",
-              data: base64Pdf
-            }
-          },
-          {
-            text: `
-              You are a Senior Academic Researcher and Editor for a scholarly journal. Your audience consists of PhD students and professors.
-              
-              **Task**: Generate a rigorous, objective academic analysis of this paper.
-              
-              **Tone & Style Rules (CRITICAL)**:
-              1.  **Calm & Objective**: Absolutely NO marketing hype, clickbait, or emotional adjectives (e.g., avoid "shocking", "game-changing", "magic", "unbelievable"). 
-              2.  **Scholarly Voice**: Use precise, neutral academic language. Focus on "The authors propose...", "This study demonstrates...", "The results indicate...".
-              3.  **Data-Driven**: Always prioritize specific numbers, p-values, and architectural details over general statements.
-              
-              **Structure Guidelines**:
-              1.  **Title**: MUST strictly follow the format: "文献分享 | [Conference/Journal Name] [Chinese Translated Title]". 
-              2.  **Section 1: Research Background (研究背景)**: Objectively state the academic problem, context, and limitations of prior work (SOTA).
-              3.  **Section 2: Methodology (研究方法)**: Technically describe the proposed approach. Use specific terms (e.g., specific loss functions, module names).
-              4.  **Section 3: Experiments (主要实验结果)**: Report key metrics and comparisons objectively.
-              5.  **Section 4: Innovation & Implications (创新点与启示)**: Summarize the core academic contributions and future research directions.
-              
-              **Formatting**:
-              *   Use **bold** for key terms or numbers.
-              *   Identify where "Figure 1", "Figure 2", etc., should be placed.
-              *   Language: Simplified Chinese (简体中文). Keep specific technical terms in English (e.g., Transformer, Zero-shot) for clarity.
-            `
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        thinkingConfig: { thinkingBudget: 16000 }
-      }
+    const document = await prepareDocument(provider, file, mode, onProgress, signal);
+
+    const text = await provider.generateStructured({
+      document,
+      instructions,
+      schema,
+      thinkingBudget: 16000,
+      signal,
+      onRetry: (error, attempt, delayMs) => onProgress(describeRetry(error, attempt, delayMs)),
+      onText: onPartial && ((textSoFar) => {
+        const preview = toPreviewArticle(parsePartialJson(textSoFar));
+        if (preview) onPartial({ ...preview, language, profileId: profile.id });
+      })
     });
 
-    if (!response.text) {
-      throw new Error("No response generated");
+    const { value, issues } = parseAndRepair<GeneratedArticle>(text, schema);
+    if (issues.length === 0) {
+      return { ...value!, language, profileId: profile.id };
     }
 
-    return JSON.parse(response.text) as GeneratedArticle;
+    console.warn("Article failed validation, asking the model to fix:", issues);
+    onProgress(`Fixing ${issues.length} invalid field(s) in the model output...`);
+    return { ...await repairInvalidFields(provider, document, instructions, schema, value, issues, signal, onProgress), language, profileId: profile.id };
 
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+    if (isAbortError(error)) throw error;
+    console.error("Article Generation Error:", error);
+    throw classifyError(error);
   }
 };
 
-export const generateCoverImage = async (prompt: string, size: "1K" | "2K" | "4K" = "1K"): Promise<string> => {
-  const ai = getAiClient();
+export const COVER_STYLES: Record<CoverStyle, { label: string; prompt: string }> = {
+  editorial: { label: 'Editorial', prompt: "3D render, ethereal, glassmorphism, data visualization aesthetic, cinematic lighting." },
+  'flat-vector': { label: 'Flat vector', prompt: "Flat vector illustration, clean geometric shapes, a limited palette of three or four colors, generous negative space, no textures." },
+  photographic: { label: 'Photographic', prompt: "Photorealistic laboratory or macro photography, shallow depth of field, soft natural light, muted colors." },
+  'lab-brand': { label: 'Lab brand', prompt: "Minimal brand illustration in deep green, white and light grey, soft gradients, abstract molecular and network motifs, calm and consistent like a journal series." }
+};
+
+// What the model is asked for; 2.35:1 is not offered, so the headline is cropped from 21:9.
+const COVER_ASPECT_RATIOS: Record<CoverAspect, string> = {
+  headline: "21:9",
+  square: "1:1"
+};
+
+export interface CoverOptions {
+  aspect?: CoverAspect;
+  style?: CoverStyle;
+}
+
+export const generateCoverImage = async (
+  prompt: string,
+  size: CoverImageSize = "1K",
+  { aspect = 'headline', style = 'editorial' }: CoverOptions = {}
+): Promise<string> => {
+  const provider = getActiveProvider();
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: `
+    return await provider.generateImage({
+      prompt: `
           Create a high-end, abstract, scientific illustration for a magazine cover.
           Subject: ${prompt}
-          Style: 3D render, ethereal, glassmorphism, data visualization aesthetic, cinematic lighting.
+          Style: ${COVER_STYLES[style].prompt}
+          ${aspect === 'square' ? "Composition: one centered motif that still reads as a small thumbnail." : "Composition: wide panorama with the main motif in the center."}
           
           NEGATIVE PROMPT (Forbidden): text, letters, words, typography, journal names, watermark, signature, blurry, messy, distorted.
           
           Ensure the image is completely text-free.
-        ` }]
-      },
-      config: {
-        imageConfig: {
-            imageSize: size,
-            aspectRatio: "16:9"
-        }
-      }
+        `,
+      size,
+      aspectRatio: COVER_ASPECT_RATIOS[aspect]
     });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image data found in response");
   } catch (error) {
     console.error("Image Generation Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
@@ -0,0 +1,207 @@
+import { Schema, Type } from "@google/genai";
+import { PdfPageText } from "../utils/pdfUtils";
+import { parseAndRepair } from "./articleValidation";
+import { InvalidOutputError, describeRetry } from "./errors";
+import { DocumentInput, LlmProvider } from "./providers";
+
+export interface PaperChunk {
+  index: number;
+  headings: string[];
+  pageStart: number;
+  pageEnd: number;
+  text: string;
+}
+
+export interface ChunkSummary {
+  headings: string;
+  summary: string;
+  keyPoints: string[];
+  metrics: string[];
+  figures: string[];
+}
+
+// Papers longer than this are routed to the staged pipeline in 'auto' mode.
+export const LONG_PAPER_PAGE_THRESHOLD = 30;
+const MAX_CHUNK_CHARS = 24000;
+
+// Numbered ("3.2 Training", "IV. RESULTS") or well-known unnumbered section headings.
+const HEADING_REGEX = /^((\d+(\.\d+)*\.?|[IVX]+\.)\s+[A-Z一-龥][^.!?]{2,80}|(Abstract|Introduction|Related Work|Background|Method(s|ology)?|Experiments?|Results|Discussion|Conclusions?|Appendix|Supplementary (Material|Information)|Materials and Methods)\b.{0,60})$/i;
+const BIBLIOGRAPHY_REGEX = /^(\d+\.?\s+)?(References|Bibliography|Literature Cited)$/i;
+
+interface Segment {
+  heading: string;
+  page: number;
+  lines: string[];
+}
+
+/**
+ * Splits the pdf.js page text at detected section headings, drops the bibliography,
+ * then packs consecutive segments into chunks small enough for one request.
+ * Segments that are too large on their own are split on page boundaries.
+ */
+export const splitIntoChunks = (pages: PdfPageText[], maxChars = MAX_CHUNK_CHARS): PaperChunk[] => {
+  const segments: Segment[] = [];
+  let current: Segment = { heading: 'Front Matter', page: pages[0]?.page ?? 1, lines: [] };
+  let inBibliography = false;
+
+  for (const page of pages) {
+    for (const rawLine of page.text.split('\n')) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (BIBLIOGRAPHY_REGEX.test(line)) {
+        segments.push(current);
+        current = { heading: line, page: page.page, lines: [] };
+        inBibliography = true;
+        continue;
+      }
+      if (HEADING_REGEX.test(line)) {
+        segments.push(current);
+        current = { heading: line, page: page.page, lines: [] };
+        inBibliography = false;
+      }
+      if (inBibliography) continue;
+      current.lines.push(line);
+    }
+    // Page markers let later stages cite pages.
+    current.lines.push(`[End of Page ${page.page}]`);
+  }
+  segments.push(current);
+
+  const chunks: PaperChunk[] = [];
+  let pending: PaperChunk | null = null;
+
+  const flush = () => {
+    if (pending && pending.text.trim()) chunks.push({ ...pending, index: chunks.length });
+    pending = null;
+  };
+
+  for (const segment of segments) {
+    const text = segment.lines.join('\n');
+    if (!text.replace(/\[End of Page \d+\]/g, '').trim()) continue;
+    const markers = Array.from(text.matchAll(/\[End of Page (\d+)\]/g));
+    const lastPage = markers.length ? Number(markers[markers.length - 1][1]) : segment.page;
+
+    if (text.length > maxChars) {
+      flush();
+      splitOversizedSegment(segment.heading, text, segment.page, maxChars).forEach(part => chunks.push({ ...part, index: chunks.length }));
+      continue;
+    }
+
+    if (pending && pending.text.length + text.length > maxChars) flush();
+    if (!pending) {
+      pending = { index: 0, headings: [], pageStart: segment.page, pageEnd: lastPage, text: '' };
+    }
+    pending.headings.push(segment.heading);
+    pending.pageEnd = lastPage;
+    pending.text += `${pending.text ? '\n\n' : ''}## ${segment.heading}\n${text}`;
+  }
+  flush();
+
+  return chunks;
+};
+
+const splitOversizedSegment = (heading: string, text: string, startPage: number, maxChars: number): PaperChunk[] => {
+  const parts: PaperChunk[] = [];
+  const pageBlocks = text.split(/(?<=\[End of Page \d+\])\n?/);
+  let buffer = '';
+  let pageStart = startPage;
+  let pageEnd = startPage;
+
+  const push = () => {
+    if (!buffer.trim()) return;
+    parts.push({ index: 0, headings: [`${heading} (part ${parts.length + 1})`], pageStart, pageEnd, text: `## ${heading}\n${buffer}` });
+    buffer = '';
+    pageStart = pageEnd + 1;
+  };
+
+  for (const block of pageBlocks) {
+    // A single page beyond the limit is hard-cut; pdf.js text rarely gets that large.
+    for (let offset = 0; offset < block.length; offset += maxChars) {
+      const piece = block.slice(offset, offset + maxChars);
+      if (buffer.length + piece.length > maxChars) push();
+      buffer += piece;
+    }
+    const page = block.match(/\[End of Page (\d+)\]/)?.[1];
+    if (page) pageEnd = Number(page);
+  }
+  push();
+  return parts;
+};
+
+export const CHUNK_SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    headings: { type: Type.STRING, description: "The section headings covered by this excerpt." },
+    summary: { type: Type.STRING, description: "Dense, objective summary of the excerpt (150-300 words, in English)." },
+    keyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Problem statements, method components or conclusions stated in the excerpt." },
+    metrics: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Every quantitative result verbatim with its context, e.g. 'Top-1 accuracy 84.3% on ImageNet (p.12)'." },
+    figures: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Labels of figures and tables discussed, e.g. 'Figure 3', 'Table 2'." }
+  },
+  required: ["summary", "keyPoints", "metrics", "figures"]
+};
+
+const CHUNK_INSTRUCTIONS = `
+  You are reading one excerpt of a long academic document (paper, thesis or supplementary material).
+  Summarize ONLY this excerpt for a later editor who will not see the original text.
+  Keep exact numbers, units, dataset names, module names and the page numbers given by the "[End of Page N]" markers.
+  Do not speculate about content outside the excerpt.
+`;
+
+// Required lists the model left out or mistyped count as empty; the rest of a summary is still usable.
+const listOrEmpty = (value: unknown) => (Array.isArray(value) ? value : []);
+
+const formatSummaries = (summaries: { chunk: PaperChunk; summary: ChunkSummary }[]) =>
+  summaries.map(({ chunk, summary: s }) => {
+    return [
+      `### Part ${chunk.index + 1}: ${s.headings || chunk.headings.join(' / ')} (pp. ${chunk.pageStart}-${chunk.pageEnd})`,
+      s.summary,
+      s.keyPoints.length ? `Key points:\n${s.keyPoints.map(p => `- ${p}`).join('\n')}` : '',
+      s.metrics.length ? `Reported metrics:\n${s.metrics.map(m => `- ${m}`).join('\n')}` : '',
+      s.figures.length ? `Figures: ${s.figures.join(', ')}` : ''
+    ].filter(Boolean).join('\n');
+  }).join('\n\n');
+
+/**
+ * Map stage of the long-paper mode: every chunk is summarized on its own, then the
+ * summaries are returned as a document the regular article prompt can compose from.
+ */
+export const summarizeLongPaper = async (
+  provider: LlmProvider,
+  pages: PdfPageText[],
+  onProgress: (status: string) => void,
+  signal?: AbortSignal
+): Promise<DocumentInput> => {
+  const chunks = splitIntoChunks(pages);
+  onProgress(`Stage 1/3: Split ${pages.length} pages into ${chunks.length} parts...`);
+
+  const summaries: { chunk: PaperChunk; summary: ChunkSummary }[] = [];
+  for (const chunk of chunks) {
+    onProgress(`Stage 2/3: Summarizing part ${chunk.index + 1}/${chunks.length} (${chunk.headings[0]}, pp. ${chunk.pageStart}-${chunk.pageEnd})...`);
+    const text = await provider.generateStructured({
+      document: { text: chunk.text },
+      instructions: CHUNK_INSTRUCTIONS,
+      schema: CHUNK_SUMMARY_SCHEMA,
+      signal,
+      onRetry: (error, attempt, delayMs) => onProgress(`Part ${chunk.index + 1}: ${describeRetry(error, attempt, delayMs)}`)
+    });
+    const { value, issues } = parseAndRepair<ChunkSummary>(text, CHUNK_SUMMARY_SCHEMA);
+    if (!value || issues.some(issue => issue.problem === 'unparseable')) {
+      console.warn(`Skipping unreadable summary for part ${chunk.index + 1}`, issues);
+      continue;
+    }
+    summaries.push({
+      chunk,
+      summary: { ...value, keyPoints: listOrEmpty(value.keyPoints), metrics: listOrEmpty(value.metrics), figures: listOrEmpty(value.figures) }
+    });
+  }
+
+  if (summaries.length === 0) {
+    throw new InvalidOutputError("No part of the paper could be summarized");
+  }
+
+  onProgress(`Stage 3/3: Composing article from ${summaries.length} part summaries...`);
+  return {
+    text: `The following are ordered summaries of every part of a long academic document. Treat them as the full paper.\n\n${formatSummaries(summaries)}`
+  };
+};
@@ -0,0 +1,166 @@
+import { AnyArticle, ArticleBlock, ArticleDocument, CoverImageSize, CoverStyle, RoundupCard } from "../types";
+import { isRoundup } from "../utils/articleText";
+import { VerificationReport } from "../utils/claimVerification";
+import { ExtractedImage } from "../utils/pdfUtils";
+
+// Everything needed to reopen a paper without calling the model again.
+export interface Project {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  fileName: string;
+  pdf: Blob | null; // the uploaded file
+  article: AnyArticle;
+  document: ArticleDocument | null; // the edited blocks; null until the editor reports them
+  figures: ExtractedImage[];
+  coverImages: string[]; // every headline cover generated for this paper
+  coverImageUrl?: string; // the one in use, without the title overlay
+  shareImages?: string[]; // 1:1 share thumbnails; absent on projects saved before they existed
+  shareImageUrl?: string;
+  coverPrompt: string;
+  coverSize: CoverImageSize;
+  coverStyle?: CoverStyle;
+  verification?: VerificationReport; // the last fact check against the PDF text
+}
+
+// The searchable part, stored separately so the sidebar never loads PDFs and images.
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  journal?: string;
+  year?: string;
+  fileName: string;
+  roundup?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'wechat-scholar';
+const DB_VERSION = 1;
+const SUMMARIES = 'projectSummaries';
+const PROJECTS = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+export const newProjectId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const summarize = (project: Project): ProjectSummary => ({
+  id: project.id,
+  title: project.document?.title || project.article.title,
+  journal: isRoundup(project.article) ? undefined : project.article.meta.journal,
+  year: isRoundup(project.article) ? undefined : project.article.meta.year,
+  fileName: project.fileName,
+  roundup: isRoundup(project.article) || undefined,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+// Most recently edited first.
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await requestResult<ProjectSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Object URLs die with the page: give every stored figure a fresh one and point
+// the article and document at it instead of the stale URL they were saved with.
+const restoreFigureUrls = (project: Project): Project => {
+  const urls = new Map<string, string>();
+  const figures = project.figures.map(figure => {
+    if (!figure.blob) return figure;
+    const src = URL.createObjectURL(figure.blob);
+    urls.set(figure.src, src);
+    return { ...figure, src };
+  });
+  if (urls.size === 0) return project;
+
+  const fresh = (src: string) => urls.get(src) ?? src;
+  const card = <T extends RoundupCard>(c: T): T => (c.figure ? { ...c, figure: { ...c.figure, src: fresh(c.figure.src) } } : c);
+  const block = (b: ArticleBlock): ArticleBlock =>
+    b.type === 'figure' ? { ...b, src: fresh(b.src) } : b.type === 'paper-card' ? card(b) : b;
+  return {
+    ...project,
+    figures,
+    article: isRoundup(project.article) ? { ...project.article, cards: project.article.cards.map(card) } : project.article,
+    document: project.document && { ...project.document, blocks: project.document.blocks.map(block) }
+  };
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const db = await openDb();
+  const project = await requestResult<Project | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  return project && restoreFigureUrls(project);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARIES, PROJECTS], 'readwrite');
+  tx.objectStore(PROJECTS).put(project);
+  tx.objectStore(SUMMARIES).put(summarize(project));
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARIES, PROJECTS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const original = await getProject(id);
+  if (!original) throw new Error("Project not found");
+  const now = Date.now();
+  const title = `${original.document?.title || original.article.title}（副本）`;
+  const copy: Project = {
+    ...original,
+    id: newProjectId(),
+    createdAt: now,
+    updatedAt: now,
+    document: original.document && { ...original.document, title }
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const matchesQuery = (summary: ProjectSummary, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [summary.title, summary.journal, summary.year, summary.fileName]
+    .some(field => field?.toLowerCase().includes(q));
+};
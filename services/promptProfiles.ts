@@ -0,0 +1,174 @@
+import { PromptProfile } from "../types";
+
+const SCHOLARLY_INSTRUCTIONS = `
+  You are a Senior Academic Researcher and Editor for a scholarly journal. Your audience consists of PhD students and professors.
+
+  **Task**: Generate a rigorous, objective academic analysis of this paper.
+
+  **Tone & Style Rules (CRITICAL)**:
+  1.  **Calm & Objective**: Absolutely NO marketing hype, clickbait, or emotional adjectives (e.g., avoid "shocking", "game-changing", "magic", "unbelievable").
+  2.  **Scholarly Voice**: Use precise, neutral academic language. Focus on "The authors propose...", "This study demonstrates...", "The results indicate...".
+  3.  **Data-Driven**: Always prioritize specific numbers, p-values, and architectural details over general statements.
+
+  **Formatting**:
+  *   Use **bold** for key terms or numbers.
+  *   Identify where "Figure 1", "Figure 2", etc., should be placed, and which "Table N" holds the main results.
+  *   Language: Simplified Chinese (简体中文). Keep specific technical terms in English (e.g., Transformer, Zero-shot) for clarity.
+`;
+
+const SCHOLARLY_FIELDS: PromptProfile["fields"] = {
+  title: "Example: '文献分享 | CVPR 2024 基于扩散模型的高效图像生成'. If Conference is unknown, use '学术前沿'.",
+  summary: "Academic abstract style summary. Concise, objective, focusing strictly on the research gap, method, and results. No marketing fluff.",
+  content: "Rigorous academic text. Use **bold** for key metrics/terms. Tone should be calm and objective.",
+  highlight: "Key academic contribution or insight."
+};
+
+// The original 文献分享 structure.
+export const DEFAULT_PROFILE: PromptProfile = {
+  id: "paper",
+  name: "文献分享 (research paper)",
+  instructions: SCHOLARLY_INSTRUCTIONS,
+  titlePattern: "文献分享 | [Conference/Journal Name] [Chinese Translated Title]",
+  sections: [
+    { title: "研究背景", guidance: "Objectively state the academic problem, context, and limitations of prior work (SOTA)." },
+    { title: "研究方法", guidance: "Technically describe the proposed approach. Use specific terms (e.g., specific loss functions, module names)." },
+    { title: "主要实验结果", guidance: "Report key metrics and comparisons objectively." },
+    { title: "创新点与启示", guidance: "Summarize the core academic contributions and future research directions." }
+  ],
+  fields: SCHOLARLY_FIELDS
+};
+
+export const BUILT_IN_PROFILES: PromptProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: "review",
+    name: "综述解读 (review paper)",
+    instructions: SCHOLARLY_INSTRUCTIONS.replace(
+      "Generate a rigorous, objective academic analysis of this paper.",
+      "This paper is a survey or review. Map the field it covers rather than a single method: the taxonomy it proposes, the main lines of work and how they compare."
+    ),
+    titlePattern: "综述解读 | [Journal Name] [Chinese Translated Title]",
+    sections: [
+      { title: "领域概览", guidance: "Define the field and its scope as the review does, and why a survey is timely now." },
+      { title: "主要研究方向", guidance: "Walk through the taxonomy: each branch, its core idea and representative works." },
+      { title: "代表性方法对比", guidance: "Compare the main approaches on the benchmarks or criteria the review uses. Cite numbers where the review reports them." },
+      { title: "开放问题与展望", guidance: "List the open problems and future directions the authors identify." }
+    ],
+    fields: {
+      ...SCHOLARLY_FIELDS,
+      title: "Example: '综述解读 | TPAMI 2024 多模态大模型研究综述'. If the journal is unknown, use '学术前沿'.",
+      summary: "What the review covers, how it organizes the field and its main conclusions. Concise and objective."
+    }
+  },
+  {
+    id: "dataset",
+    name: "数据集与基准 (dataset / benchmark)",
+    instructions: SCHOLARLY_INSTRUCTIONS.replace(
+      "Generate a rigorous, objective academic analysis of this paper.",
+      "This paper introduces a dataset or benchmark. Focus on what it measures, how the data was built and what the baseline results reveal."
+    ),
+    titlePattern: "数据集速览 | [Conference/Journal Name] [Chinese Translated Title]",
+    sections: [
+      { title: "任务与动机", guidance: "The task or capability being measured and the gap in existing datasets or benchmarks." },
+      { title: "数据构建", guidance: "Sources, size, annotation process, quality control and splits. Give exact counts." },
+      { title: "评测协议与基线结果", guidance: "Metrics, evaluation protocol and how the baselines score. Point to the main results table." },
+      { title: "局限与使用建议", guidance: "Known biases and limitations, licence and access, and who should use it for what." }
+    ],
+    fields: {
+      ...SCHOLARLY_FIELDS,
+      title: "Example: '数据集速览 | NeurIPS 2024 面向长视频理解的评测基准'. If Conference is unknown, use '学术前沿'.",
+      highlight: "What this dataset or benchmark makes possible that was not before."
+    }
+  },
+  {
+    id: "brief",
+    name: "快讯 (short news)",
+    instructions: SCHOLARLY_INSTRUCTIONS.replace(
+      "Generate a rigorous, objective academic analysis of this paper.",
+      "Write a short news item about this paper that can be read in one minute. Keep only the single most important finding and why it matters."
+    ),
+    titlePattern: "快讯 | [Chinese Translated Title]",
+    sections: [
+      { title: "核心发现", guidance: "The main result in two or three sentences, with its key number." },
+      { title: "为什么重要", guidance: "One or two sentences on what it changes for the field." }
+    ],
+    fields: {
+      title: "Example: '快讯 | 扩散模型首次实现实时高清视频生成'.",
+      summary: "One sentence: who did what, and the result.",
+      content: "Two or three sentences at most. Use **bold** for the key number.",
+      highlight: "Leave empty unless there is a striking single takeaway."
+    }
+  }
+];
+
+const CUSTOM_PROFILES_KEY = "wechat-scholar.profiles";
+const ACTIVE_PROFILE_KEY = "wechat-scholar.active-profile";
+
+export const loadCustomProfiles = (): PromptProfile[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    return stored ? JSON.parse(stored).map(normalizeProfile) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable prompt profiles", e);
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: PromptProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = () => localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE.id;
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+export const isBuiltInProfile = (id: string) => BUILT_IN_PROFILES.some(p => p.id === id);
+
+// A built-in or saved profile by id, or the default if it no longer exists.
+export const findProfile = (id: string | undefined): PromptProfile =>
+  [...BUILT_IN_PROFILES, ...loadCustomProfiles()].find(p => p.id === id) ?? DEFAULT_PROFILE;
+
+// The profile to start with: the last one picked.
+export const initialProfile = (): PromptProfile => findProfile(loadActiveProfileId());
+
+// Fills anything a hand-written profile leaves out from the default one.
+const normalizeProfile = (raw: Partial<PromptProfile>): PromptProfile => {
+  const sections = Array.isArray(raw.sections)
+    ? raw.sections
+      .filter(s => typeof s?.title === "string" && s.title.trim())
+      .map(s => ({ title: s.title.trim(), guidance: typeof s.guidance === "string" ? s.guidance : "" }))
+    : [];
+  return {
+    id: raw.id || DEFAULT_PROFILE.id,
+    name: raw.name || "Untitled Profile",
+    instructions: typeof raw.instructions === "string" && raw.instructions.trim() ? raw.instructions : DEFAULT_PROFILE.instructions,
+    titlePattern: typeof raw.titlePattern === "string" && raw.titlePattern.trim() ? raw.titlePattern : DEFAULT_PROFILE.titlePattern,
+    sections: sections.length > 0 ? sections : DEFAULT_PROFILE.sections,
+    fields: { ...DEFAULT_PROFILE.fields, ...raw.fields }
+  };
+};
+
+/**
+ * Reads a profile from JSON, as exported or edited by hand. Never overwrites a
+ * built-in: the result gets a fresh id if it has none or collides with one.
+ */
+export const parseProfileJson = (json: string): PromptProfile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Profile is not valid JSON");
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw) || !("name" in raw)) {
+    throw new Error("Profile must be an object with at least a \"name\"");
+  }
+  const profile = normalizeProfile(raw as Partial<PromptProfile>);
+  if (!("id" in raw) || isBuiltInProfile(profile.id)) {
+    profile.id = `custom-${Date.now().toString(36)}`;
+  }
+  return profile;
+};
+
+export const serializeProfile = (profile: PromptProfile) => JSON.stringify(profile, null, 2);
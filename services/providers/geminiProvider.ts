@@ -0,0 +1,101 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import { AuthError, InvalidOutputError, SafetyBlockedError } from "../errors";
+import { LlmProvider, ProviderConfig } from "./types";
+
+const DEFAULT_TEXT_MODEL = 'gemini-3-pro-preview';
+const DEFAULT_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.IMAGE_SAFETY
+];
+
+// Gemini reports blocks in the response body rather than as an HTTP error.
+const assertNotBlocked = (response: GenerateContentResponse | undefined) => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Gemini blocked the response (${blockReason || finishReason}).`);
+  }
+};
+
+export const createGeminiProvider = (config: ProviderConfig): LlmProvider => {
+  // Helper to initialize the client securely
+  const getAiClient = () => {
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new AuthError("API Key not found in environment variables");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    kind: 'gemini',
+    label: 'Gemini 3 Pro',
+    acceptsPdf: true,
+
+    generateStructured: async ({ document, instructions, schema, thinkingBudget, signal, onText }) => {
+      const ai = getAiClient();
+      const parts: Part[] = [];
+      if (document.base64Pdf) {
+        parts.push({ inlineData: { mimeType: "application/pdf", data: document.base64Pdf } });
+      } else if (document.text) {
+        parts.push({ text: document.text });
+      }
+      parts.push({ text: instructions });
+
+      const params = {
+        model: config.model || DEFAULT_TEXT_MODEL,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+          ...(thinkingBudget ? { thinkingConfig: { thinkingBudget } } : {})
+        }
+      };
+
+      let text = '';
+      let last: GenerateContentResponse | undefined;
+      if (onText) {
+        const stream = await ai.models.generateContentStream(params);
+        for await (const chunk of stream) {
+          last = chunk;
+          if (!chunk.text) continue;
+          text += chunk.text;
+          onText(text);
+        }
+      } else {
+        last = await ai.models.generateContent(params);
+        text = last.text || '';
+      }
+
+      assertNotBlocked(last);
+      if (!text) {
+        throw new InvalidOutputError("No response generated");
+      }
+      return text;
+    },
+
+    generateImage: async ({ prompt, size, aspectRatio }) => {
+      const ai = getAiClient();
+      const response = await ai.models.generateContent({
+        model: config.imageModel || DEFAULT_IMAGE_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          imageConfig: {
+            imageSize: size,
+            aspectRatio
+          }
+        }
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+      }
+      assertNotBlocked(response);
+      throw new InvalidOutputError("No image data found in response");
+    }
+  };
+};
@@ -0,0 +1,70 @@
+import { withRetry } from "../errors";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { LlmProvider, ProviderConfig, ProviderKind } from "./types";
+
+export * from "./types";
+
+const STORAGE_KEY = 'wechat-scholar.provider';
+
+export const PROVIDER_KINDS: { kind: ProviderKind; label: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini' },
+  { kind: 'openai', label: 'OpenAI-compatible / Local' },
+  { kind: 'mock', label: 'Mock (offline)' }
+];
+
+// Build-time defaults come from .env.local (see vite.config.ts).
+const getDefaultConfig = (): ProviderConfig => {
+  const kind = process.env.LLM_PROVIDER as ProviderKind | undefined;
+  if (kind === 'openai') {
+    return {
+      kind,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL
+    };
+  }
+  return { kind: kind === 'mock' ? 'mock' : 'gemini' };
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...getDefaultConfig(), ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable provider config", e);
+  }
+  return getDefaultConfig();
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const createBaseProvider = (config: ProviderConfig): LlmProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+// Every provider call is retried on transient failures and rejects with a classified ScholarError.
+export const createProvider = (config: ProviderConfig): LlmProvider => {
+  const provider = createBaseProvider(config);
+  return {
+    ...provider,
+    generateStructured: (request) =>
+      withRetry(() => provider.generateStructured(request), { signal: request.signal, onRetry: request.onRetry }),
+    generateImage: (request) => withRetry(() => provider.generateImage(request))
+  };
+};
+
+// Resolved on every call so a settings change applies to the next request.
+export const getActiveProvider = (): LlmProvider => createProvider(loadProviderConfig());
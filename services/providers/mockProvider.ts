@@ -0,0 +1,68 @@
+import { Schema, Type } from "@google/genai";
+import { LlmProvider } from "./types";
+
+// Small stable hash so the same prompt always yields the same mock cover.
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Walks the requested schema and fills every field with a predictable value,
+// so any structured request (not only the article) gets a well-formed answer.
+const mockValue = (schema: Schema, path: string, sourceSnippet: string): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        result[key] = mockValue(child, path ? `${path}.${key}` : key, sourceSnippet);
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      const count = schema.items?.type === Type.OBJECT ? 4 : 2;
+      return Array.from({ length: count }, (_, i) => mockValue(schema.items || { type: Type.STRING }, `${path}[${i}]`, sourceSnippet));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return sourceSnippet ? `[mock ${path}] ${sourceSnippet}` : `[mock ${path}]`;
+  }
+};
+
+/**
+ * Deterministic, offline provider for tests and UI development. Never hits the network.
+ */
+export const createMockProvider = (): LlmProvider => ({
+  kind: 'mock',
+  label: 'Mock (offline)',
+  acceptsPdf: false,
+
+  generateStructured: async ({ document, schema, signal, onText }) => {
+    const snippet = (document.text || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+    const text = JSON.stringify(mockValue(schema, '', snippet));
+    if (onText) {
+      // Emit in fixed slices so streaming UIs can be exercised offline.
+      for (let end = 40; end < text.length + 40; end += 40) {
+        await new Promise(r => setTimeout(r, 30));
+        signal?.throwIfAborted();
+        onText(text.slice(0, end));
+      }
+    }
+    signal?.throwIfAborted();
+    return text;
+  },
+
+  generateImage: async ({ prompt, aspectRatio }) => {
+    const hue = hashString(prompt) % 360;
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const height = Math.round(1600 * h / w) || 900;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="${height}"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},60%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,65%)"/></linearGradient></defs><rect width="1600" height="${height}" fill="url(#g)"/></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  }
+});
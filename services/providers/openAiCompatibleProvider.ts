@@ -0,0 +1,166 @@
+import { toJsonSchema } from "../articleSchema";
+import { InvalidOutputError, SafetyBlockedError, ScholarError, errorFromHttpStatus } from "../errors";
+import { LlmProvider, ProviderConfig } from "./types";
+
+const DEFAULT_BASE_URL = 'http://localhost:8080/v1';
+
+// Landscape sizes accepted by the OpenAI images endpoint; local servers usually ignore it.
+const IMAGE_SIZES: Record<string, string> = {
+  "1K": "1024x1024",
+  "2K": "1536x1024",
+  "4K": "1536x1024"
+};
+
+// An `{"error": ...}` event sent mid-stream, after the HTTP status was already 200.
+const streamError = (error: unknown): ScholarError => {
+  const { message, type, code } = typeof error === 'object' && error !== null
+    ? error as { message?: string; type?: string; code?: unknown }
+    : { message: String(error), type: undefined, code: undefined };
+  const hint = `${type ?? ''} ${code ?? ''}`;
+  const status = Number(code) >= 400 ? Number(code)
+    : /rate_limit|quota/i.test(hint) ? 429
+    : /auth|api_key/i.test(hint) ? 401
+    : 500;
+  return errorFromHttpStatus(status, `The stream failed: ${message || type || 'unknown error'}`);
+};
+
+/**
+ * Talks to any server implementing the OpenAI `chat/completions` API: OpenAI itself,
+ * or a self-hosted llama.cpp / vLLM / Ollama instance. These models cannot read PDFs,
+ * so they always receive the pdf.js text.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): LlmProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      const retryAfter = Number(res.headers.get('Retry-After'));
+      throw errorFromHttpStatus(
+        res.status,
+        `${path} failed with HTTP ${res.status}: ${detail.slice(0, 300)}`,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    return res;
+  };
+
+  // Accumulates the `delta.content` of a server-sent event stream.
+  const readStream = async (res: Response, onText: (textSoFar: string) => void) => {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    const handleLine = (line: string) => {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !payload || payload === '[DONE]') return;
+      let event;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        return; // keep-alives and partial vendor extensions
+      }
+      if (event?.error) {
+        throw streamError(event.error);
+      }
+      const choice = event?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockedError();
+      }
+      const delta: string | undefined = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    };
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    // A stream may end without a trailing newline
+    buffer += decoder.decode();
+    buffer.split('\n').forEach(handleLine);
+    return text;
+  };
+
+  return {
+    kind: 'openai',
+    label: config.model ? `${config.model} (OpenAI-compatible)` : 'OpenAI-compatible',
+    acceptsPdf: false,
+
+    generateStructured: async ({ document, instructions, schema, signal, onText }) => {
+      if (!config.model) {
+        throw new ScholarError('unknown', "No model configured for the OpenAI-compatible provider", "Enter a model name in the Model settings.");
+      }
+      const jsonSchema = toJsonSchema(schema);
+      const res = await post('/chat/completions', {
+        model: config.model,
+        stream: Boolean(onText),
+        messages: [
+          {
+            role: 'system',
+            // Servers without json_schema support still get the shape in the prompt.
+            content: `${instructions}\n\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(jsonSchema)}`
+          },
+          {
+            role: 'user',
+            content: `Full text of the paper (extracted from the PDF):\n\n${document.text || ''}`
+          }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: jsonSchema }
+        }
+      }, signal);
+
+      let text: string | undefined;
+      if (onText) {
+        text = await readStream(res, onText);
+      } else {
+        const choice = (await res.json())?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new SafetyBlockedError();
+        }
+        text = choice?.message?.content;
+      }
+      if (!text) {
+        throw new InvalidOutputError("No response generated");
+      }
+      return text;
+    },
+
+    generateImage: async ({ prompt, size, aspectRatio }) => {
+      if (!config.imageModel) {
+        throw new ScholarError('unknown', "No image model configured for the OpenAI-compatible provider", "Enter an image model in the Model settings, or use Gemini for covers.");
+      }
+      const res = await post('/images/generations', {
+        model: config.imageModel,
+        prompt,
+        size: aspectRatio === "1:1" ? "1024x1024" : IMAGE_SIZES[size],
+        response_format: 'b64_json',
+        n: 1
+      });
+      const data = await res.json();
+
+      const b64: string | undefined = data?.data?.[0]?.b64_json;
+      if (!b64) {
+        throw new InvalidOutputError("No image data found in response");
+      }
+      return `data:image/png;base64,${b64}`;
+    }
+  };
+};
@@ -0,0 +1,48 @@
+import { Schema } from "@google/genai";
+import { CoverImageSize } from "../../types";
+import { ScholarError } from "../errors";
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. "http://localhost:8080/v1"
+  model?: string;
+  imageModel?: string;
+}
+
+// What the provider gets to read. PDF-native models receive the inline base64 PDF,
+// everything else receives the text extracted by pdf.js.
+export interface DocumentInput {
+  base64Pdf?: string;
+  text?: string;
+}
+
+export interface StructuredGenerationRequest {
+  document: DocumentInput;
+  instructions: string;
+  schema: Schema;
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+  // When set, the provider streams and reports the accumulated text after every chunk.
+  onText?: (textSoFar: string) => void;
+  // Called before a transient failure is retried.
+  onRetry?: (error: ScholarError, attempt: number, delayMs: number) => void;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  size: CoverImageSize;
+  aspectRatio: string;
+}
+
+export interface LlmProvider {
+  readonly kind: ProviderKind;
+  readonly label: string;
+  readonly acceptsPdf: boolean;
+  // Resolves with the raw JSON text produced by the model.
+  generateStructured: (request: StructuredGenerationRequest) => Promise<string>;
+  // Resolves with a data URL.
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+}
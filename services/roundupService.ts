@@ -0,0 +1,135 @@
+import { Schema, Type } from "@google/genai";
+import { ArticleDocument, GeneratedArticle, RoundupArticle, RoundupCard } from "../types";
+import { DEFAULT_JOURNAL } from "../utils/articleText";
+import { matchFigure } from "../utils/articleDocument";
+import { ExtractedImage } from "../utils/pdfUtils";
+import { SchemaValidationError, parseAndRepair } from "./articleValidation";
+import { classifyError, describeRetry, isAbortError } from "./errors";
+import { getActiveProvider } from "./providers";
+
+// A finished single-paper article, with the edits and figures saved alongside it.
+export interface RoundupSource {
+  article: GeneratedArticle;
+  document: ArticleDocument | null;
+  figures: ExtractedImage[];
+}
+
+export const ROUNDUP_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Strict format: '本周精选 | [Theme of this week's papers]'. Example: '本周精选 | 扩散模型的高效推理'." },
+    intro: { type: Type.STRING, description: "2-3 sentences introducing this week's selection and what connects the papers." },
+    coverImagePrompt: { type: Type.STRING, description: "Abstract art description for cover. STRICTLY NO TEXT descriptions." },
+    cards: {
+      type: Type.ARRAY,
+      description: "One entry per paper, in the given order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          paperIndex: { type: Type.INTEGER, description: "The [Paper N] number this card is about." },
+          title: { type: Type.STRING, description: "Chinese paper title without the column prefix (e.g. '文献分享 |', '快讯 |') or venue." },
+          summary: { type: Type.STRING, description: "One paragraph (80-150 Chinese characters): problem, method, key result. Use **bold** for key metrics." },
+          keyFigure: { type: Type.STRING, description: "Exact label of the most representative figure from the paper's list, e.g. 'Figure 2'. Empty string if none fits." }
+        },
+        required: ["paperIndex", "title", "summary"]
+      }
+    },
+    comparisonTitle: { type: Type.STRING, description: "Title of the closing section, e.g. '横向对比与思考'." },
+    comparison: { type: Type.STRING, description: "Compare the papers: shared trends, differing approaches, trade-offs, open questions. Paragraphs separated by newlines; **bold** allowed." }
+  },
+  required: ["title", "intro", "cards", "comparison"]
+};
+
+const ROUNDUP_INSTRUCTIONS = `
+  You are a senior editor writing a weekly "本周精选" (weekly picks) post for an academic WeChat Official Account.
+  The input lists several papers that already have full Chinese write-ups.
+
+  Write in calm, objective academic Chinese. Keep English technical terms where they are standard.
+  Produce one condensed card per paper, in the order given, and a closing comparison that relates the papers
+  to each other instead of repeating the cards. Only pick a keyFigure from the labels listed for that paper.
+`;
+
+const sourceTitle = (source: RoundupSource) => source.document?.title || source.article.title;
+
+const venueOf = ({ meta }: GeneratedArticle) => [meta.journal, meta.year].filter(Boolean).join(' ') || DEFAULT_JOURNAL;
+
+const describeSource = (source: RoundupSource, idx: number) => {
+  const { article } = source;
+  return [
+    `[Paper ${idx + 1}]`,
+    `Title: ${sourceTitle(source)}`,
+    `Venue: ${venueOf(article)}`,
+    `Summary: ${article.summary}`,
+    ...article.sections.map(section => `- ${section.title}: ${section.highlight || section.content.slice(0, 200)}`),
+    `Figures: ${source.figures.map(f => f.label).join(', ') || 'none'}`
+  ].join('\n');
+};
+
+// The model's pick, else the first figure kept in the edited article, else the first extracted one.
+const pickFigure = (source: RoundupSource, label: string | undefined): RoundupCard['figure'] => {
+  const matched = matchFigure(label, source.figures);
+  if (matched) return { src: matched.src, caption: matched.label };
+  const kept = source.document?.blocks.find(b => b.type === 'figure');
+  if (kept?.type === 'figure') return { src: kept.src, caption: kept.caption };
+  const first = source.figures[0];
+  return first && { src: first.src, caption: first.label };
+};
+
+interface RoundupResponse {
+  title: string;
+  intro: string;
+  coverImagePrompt?: string;
+  cards: { paperIndex: number; title: string; summary: string; keyFigure?: string }[];
+  comparisonTitle?: string;
+  comparison: string;
+}
+
+export const generateRoundup = async (
+  sources: RoundupSource[],
+  onProgress: (status: string) => void,
+  signal?: AbortSignal
+): Promise<RoundupArticle> => {
+  const provider = getActiveProvider();
+
+  try {
+    onProgress(`Combining ${sources.length} papers with ${provider.label}...`);
+    const text = await provider.generateStructured({
+      document: { text: sources.map(describeSource).join('\n\n') },
+      instructions: ROUNDUP_INSTRUCTIONS,
+      schema: ROUNDUP_RESPONSE_SCHEMA,
+      signal,
+      onRetry: (error, attempt, delayMs) => onProgress(describeRetry(error, attempt, delayMs))
+    });
+
+    const { value, issues } = parseAndRepair<RoundupResponse>(text, ROUNDUP_RESPONSE_SCHEMA);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues);
+    }
+    const response = value!;
+
+    // Every selected paper gets a card, even if the model skipped or misnumbered one.
+    const cards = sources.map((source, idx): RoundupCard => {
+      const card = response.cards.find(c => c.paperIndex === idx + 1) ?? response.cards[idx];
+      return {
+        title: card?.title || sourceTitle(source),
+        venue: venueOf(source.article),
+        summary: card?.summary || source.article.summary,
+        link: source.article.meta.link || undefined,
+        figure: pickFigure(source, card?.keyFigure)
+      };
+    });
+
+    return {
+      kind: 'roundup',
+      title: response.title,
+      summary: response.intro,
+      coverImagePrompt: response.coverImagePrompt,
+      cards,
+      comparison: { title: response.comparisonTitle || '横向对比与思考', content: response.comparison }
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Roundup Generation Error:", error);
+    throw classifyError(error);
+  }
+};
@@ -0,0 +1,142 @@
+import { Schema, Type } from "@google/genai";
+import { OutputLanguage, PromptProfile } from "../types";
+import { buildArticleInstructions } from "./articleSchema";
+import { SchemaValidationError, parseAndRepair } from "./articleValidation";
+import { classifyError, describeRetry, isAbortError } from "./errors";
+import { prepareDocument } from "./geminiService";
+import { DocumentInput, getActiveProvider } from "./providers";
+
+export type RewriteStyle = "shorter" | "detailed" | "accessible";
+
+export const REWRITE_STYLES: Record<RewriteStyle, { label: string; prompt: string }> = {
+  shorter: { label: "Shorter", prompt: "Make it noticeably shorter (about half the length). Keep the key numbers and claims; drop repetition and secondary detail." },
+  detailed: { label: "More detailed", prompt: "Make it more detailed: add the specific mechanisms, settings and numbers from the paper that support it. Do not invent anything the paper does not say." },
+  accessible: { label: "For undergrads", prompt: "Rewrite it for undergraduate students: explain jargon in plain words on first use, prefer short sentences and one concrete intuition, but keep it accurate." }
+};
+
+// One section of the edited article as the reader currently sees it.
+export interface SectionText {
+  heading: string;
+  paragraphs: string[];
+  highlight?: string;
+}
+
+// Everything a section request needs besides the section itself.
+export interface SectionContext {
+  file: File | null; // the paper; without it only the article text is context
+  articleTitle: string;
+  profile: PromptProfile;
+  language: OutputLanguage;
+}
+
+export interface SectionAssistant {
+  regenerateSection: (section: SectionText, signal?: AbortSignal) => Promise<{ paragraphs: string[]; highlight?: string }>;
+  rewritePassage: (section: SectionText, passage: string, style: RewriteStyle, signal?: AbortSignal) => Promise<string>;
+  expandHighlight: (section: SectionText, signal?: AbortSignal) => Promise<string>;
+}
+
+const SECTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    content: { type: Type.STRING, description: "The new section text. Paragraphs separated by newlines; **bold** for key terms and numbers." },
+    highlight: { type: Type.STRING, description: "Key academic contribution or insight of this section. Empty string if none." }
+  },
+  required: ["content"]
+};
+
+const TEXT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: "The replacement text only, with **bold** markup kept where it helps. No quotes or commentary." }
+  },
+  required: ["text"]
+};
+
+const describeSection = (section: SectionText) => [
+  `Section: ${section.heading}`,
+  ...section.paragraphs,
+  ...(section.highlight ? [`Highlight: ${section.highlight}`] : [])
+].join("\n");
+
+/**
+ * Binds section requests to one paper. The paper is read once, on first use, and
+ * reused by every later request; the whole article is never regenerated.
+ */
+export const createSectionAssistant = (context: SectionContext): SectionAssistant => {
+  let documentPromise: Promise<DocumentInput> | null = null;
+
+  const paperDocument = (signal?: AbortSignal) => {
+    if (!context.file) return Promise.resolve<DocumentInput | null>(null);
+    documentPromise ??= prepareDocument(getActiveProvider(), context.file, "single", () => {}, signal)
+      .catch(error => {
+        documentPromise = null; // let the next request try again
+        throw error;
+      });
+    return documentPromise;
+  };
+
+  const request = async <T>(section: SectionText, task: string, schema: Schema, signal?: AbortSignal): Promise<T> => {
+    const provider = getActiveProvider();
+    try {
+      const paper = await paperDocument(signal);
+      const current = `Article: ${context.articleTitle}\n\n${describeSection(section)}`;
+      const text = await provider.generateStructured({
+        // Without the PDF the current text is all the model gets to read
+        document: paper ?? { text: current },
+        instructions: `${buildArticleInstructions(context.profile, { language: context.language })}
+
+  **Task Override**: Do NOT write a whole article. You are editing one section of an existing write-up of this paper.
+  ${paper ? `The section currently reads:\n${current}\n` : ""}
+  ${task}
+`,
+        schema,
+        signal,
+        onRetry: (error, attempt, delayMs) => console.warn(describeRetry(error, attempt, delayMs))
+      });
+      const { value, issues } = parseAndRepair<T>(text, schema);
+      if (issues.length > 0) {
+        throw new SchemaValidationError(issues);
+      }
+      return value!;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Section Rewrite Error:", error);
+      throw classifyError(error);
+    }
+  };
+
+  return {
+    regenerateSection: async (section, signal) => {
+      const { content, highlight } = await request<{ content: string; highlight?: string }>(
+        section,
+        `Write the section "${section.heading}" again from the paper, in the style and depth the profile asks for. It should be clearly better than the current text: more precise and better supported by the paper.`,
+        SECTION_SCHEMA,
+        signal
+      );
+      return {
+        paragraphs: content.split("\n").map(p => p.trim()).filter(Boolean),
+        highlight: highlight?.trim() || undefined
+      };
+    },
+
+    rewritePassage: async (section, passage, style, signal) => {
+      const { text } = await request<{ text: string }>(
+        section,
+        `Rewrite only this passage from the section:\n"""${passage}"""\n${REWRITE_STYLES[style].prompt}\nIt must still read naturally in place, next to the text around it.`,
+        TEXT_SCHEMA,
+        signal
+      );
+      return text.trim();
+    },
+
+    expandHighlight: async (section, signal) => {
+      const { text } = await request<{ text: string }>(
+        section,
+        `Expand the section's highlight into two to four sentences: what the contribution is, why it matters and what it suggests for future work, grounded in the paper. Current highlight: "${section.highlight ?? ""}"`,
+        TEXT_SCHEMA,
+        signal
+      );
+      return text.trim();
+    }
+  };
+};
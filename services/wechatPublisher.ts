@@ -0,0 +1,281 @@
+import { AnyArticle } from "../types";
+import { isRoundup } from "../utils/articleText";
+import { WECHAT_CONTENT_MAX_BYTES, WECHAT_COVER_MAX_BYTES, WECHAT_IMAGE_MAX_BYTES, WECHAT_IMAGE_TYPES, formatBytes } from "../utils/imageProcessing";
+import { ExportedImage, WechatExportResult, withImageSources } from "../utils/wechatExport";
+import { ErrorKind, ScholarError, classifyError, withRetry } from "./errors";
+
+export interface WechatConfig {
+  appId: string;
+  appSecret: string;
+  // api.weixin.qq.com does not allow browser CORS, so this is normally the Vite dev
+  // proxy ("/wechat-api"), your own relay, or the local mock server.
+  apiBase: string;
+  author?: string;
+}
+
+export interface PublishResult {
+  draftMediaId: string;
+  coverMediaId: string;
+  coverUrl?: string;
+  imageUrls: Record<string, string>; // exported file name -> mmbiz URL
+}
+
+const STORAGE_KEY = 'wechat-scholar.wechat';
+export const DEFAULT_WECHAT_API_BASE = '/wechat-api';
+
+// Limits enforced by draft/add.
+const MAX_TITLE_LENGTH = 64;
+const MAX_DIGEST_LENGTH = 120;
+const MAX_AUTHOR_LENGTH = 16;
+
+interface ErrorCodeInfo {
+  kind: ErrorKind;
+  message: string;
+  suggestion: string;
+  retryable?: boolean;
+}
+
+const CHECK_CREDENTIALS = "Check the AppID / AppSecret in the WeChat settings.";
+
+// https://developers.weixin.qq.com/doc/offiaccount/Getting_Started/Global_Return_Code.html
+const ERROR_CODES: Record<number, ErrorCodeInfo> = {
+  [-1]: { kind: 'network', message: "WeChat system busy", suggestion: "Try again in a few seconds.", retryable: true },
+  40001: { kind: 'auth', message: "Invalid or expired access_token", suggestion: CHECK_CREDENTIALS },
+  42001: { kind: 'auth', message: "access_token expired", suggestion: CHECK_CREDENTIALS },
+  40013: { kind: 'auth', message: "Invalid AppID", suggestion: CHECK_CREDENTIALS },
+  40125: { kind: 'auth', message: "Invalid AppSecret", suggestion: CHECK_CREDENTIALS },
+  40164: { kind: 'auth', message: "Calling IP is not in the IP whitelist", suggestion: "Add the server's IP to the whitelist under 设置与开发 → 基本配置." },
+  41004: { kind: 'auth', message: "AppSecret missing", suggestion: CHECK_CREDENTIALS },
+  48001: { kind: 'auth', message: "This account is not authorized for the API", suggestion: "Drafts require a verified Official Account with the 草稿箱 permission." },
+  45009: { kind: 'rate-limit', message: "Daily API quota reached", suggestion: "Wait until tomorrow or reset the quota in the admin console." },
+  45011: { kind: 'rate-limit', message: "API called too frequently", suggestion: "Wait a moment and try again.", retryable: true },
+  40007: { kind: 'invalid-output', message: "Invalid media_id", suggestion: "Upload the cover again." },
+  40113: { kind: 'invalid-output', message: "Unsupported image format", suggestion: "Use JPG or PNG images." },
+  40005: { kind: 'invalid-output', message: "Unsupported file type", suggestion: "Use JPG or PNG images." },
+  45001: { kind: 'invalid-output', message: "Image exceeds the size limit", suggestion: "Compress the image (max 1 MB for in-article images, 10 MB for covers)." },
+  45002: { kind: 'invalid-output', message: "Content too long", suggestion: "Shorten the article; content must stay under 20,000 characters and 1 MB." },
+  45003: { kind: 'invalid-output', message: "Title too long", suggestion: `Shorten the title to ${MAX_TITLE_LENGTH} characters.` },
+  45004: { kind: 'invalid-output', message: "Digest too long", suggestion: `Shorten the summary to ${MAX_DIGEST_LENGTH} characters.` },
+  45110: { kind: 'invalid-output', message: "Author too long", suggestion: `Use at most ${MAX_AUTHOR_LENGTH} characters for the author.` }
+};
+
+export class WechatApiError extends ScholarError {
+  readonly errcode: number;
+
+  constructor(errcode: number, errmsg: string) {
+    const info = ERROR_CODES[errcode];
+    super(
+      info?.kind ?? 'unknown',
+      `${info?.message ?? 'WeChat API error'} (errcode ${errcode}: ${errmsg})`,
+      info?.suggestion ?? "See the WeChat global return code documentation for this errcode.",
+      info?.retryable ?? false
+    );
+    this.name = 'WechatApiError';
+    this.errcode = errcode;
+  }
+}
+
+export const loadWechatConfig = (): WechatConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return { appId: '', appSecret: '', apiBase: DEFAULT_WECHAT_API_BASE, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring unreadable WeChat config", e);
+  }
+  return { appId: '', appSecret: '', apiBase: DEFAULT_WECHAT_API_BASE };
+};
+
+export const saveWechatConfig = (config: WechatConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+// --- Access token -------------------------------------------------------------
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+// Refresh a little before WeChat's 7200s expiry.
+const TOKEN_SAFETY_MARGIN_MS = 5 * 60 * 1000;
+
+const cacheKey = (config: WechatConfig) => `${config.apiBase}|${config.appId}`;
+
+const apiUrl = (config: WechatConfig, path: string, params: Record<string, string>) => {
+  const base = config.apiBase.replace(/\/+$/, '');
+  return `${base}${path}?${new URLSearchParams(params).toString()}`;
+};
+
+const readResponse = async <T>(res: Response): Promise<T> => {
+  if (!res.ok) {
+    throw new ScholarError('network', `WeChat API request failed with HTTP ${res.status}`, "Check that the API base URL / proxy is reachable.", res.status >= 500);
+  }
+  const data = await res.json();
+  if (typeof data?.errcode === 'number' && data.errcode !== 0) {
+    throw new WechatApiError(data.errcode, data.errmsg || '');
+  }
+  return data as T;
+};
+
+export const getAccessToken = async (config: WechatConfig, forceRefresh = false): Promise<string> => {
+  const cached = tokenCache.get(cacheKey(config));
+  if (!forceRefresh && cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  // Asking for a token again is harmless, so transient failures are retried
+  const data = await withRetry(async () => readResponse<{ access_token: string; expires_in: number }>(
+    await fetch(apiUrl(config, '/cgi-bin/token', {
+      grant_type: 'client_credential',
+      appid: config.appId,
+      secret: config.appSecret
+    }))
+  ));
+
+  tokenCache.set(cacheKey(config), {
+    token: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_SAFETY_MARGIN_MS
+  });
+  return data.access_token;
+};
+
+export const clearAccessToken = (config: WechatConfig) => {
+  tokenCache.delete(cacheKey(config));
+};
+
+// Runs an authenticated call once, refreshing the token once if WeChat reports it expired.
+const withToken = async <T>(config: WechatConfig, call: (token: string) => Promise<T>): Promise<T> => {
+  try {
+    return await call(await getAccessToken(config));
+  } catch (error) {
+    if (error instanceof WechatApiError && (error.errcode === 40001 || error.errcode === 42001)) {
+      return call(await getAccessToken(config, true));
+    }
+    throw error;
+  }
+};
+
+// The same, retried when WeChat is busy or the network drops. Only for calls that are
+// safe to repeat: a lost response to draft/add or add_material would otherwise create
+// a duplicate draft or permanent material.
+const withTokenRetried = <T>(config: WechatConfig, call: (token: string) => Promise<T>): Promise<T> =>
+  withRetry(() => withToken(config, call));
+
+// --- Material & draft endpoints -----------------------------------------------
+
+const uploadForm = (fileName: string, blob: Blob) => {
+  const form = new FormData();
+  form.append('media', blob, fileName);
+  return form;
+};
+
+// Images inside the article body: returns a URL usable in `content`.
+export const uploadArticleImage = (config: WechatConfig, image: ExportedImage) =>
+  withTokenRetried(config, async (token) => {
+    const res = await fetch(apiUrl(config, '/cgi-bin/media/uploadimg', { access_token: token }), {
+      method: 'POST',
+      body: uploadForm(image.fileName, image.blob)
+    });
+    return (await readResponse<{ url: string }>(res)).url;
+  });
+
+// Permanent image material, required for the draft cover (thumb_media_id).
+export const uploadCoverImage = (config: WechatConfig, image: ExportedImage) =>
+  withToken(config, async (token) => {
+    const res = await fetch(apiUrl(config, '/cgi-bin/material/add_material', { access_token: token, type: 'image' }), {
+      method: 'POST',
+      body: uploadForm(image.fileName, image.blob)
+    });
+    return readResponse<{ media_id: string; url?: string }>(res);
+  });
+
+interface DraftArticle {
+  title: string;
+  author?: string;
+  digest?: string;
+  content: string;
+  content_source_url?: string;
+  thumb_media_id: string;
+  need_open_comment?: number;
+}
+
+export const addDraft = (config: WechatConfig, draft: DraftArticle) =>
+  withToken(config, async (token) => {
+    const res = await fetch(apiUrl(config, '/cgi-bin/draft/add', { access_token: token }), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ articles: [draft] })
+    });
+    return (await readResponse<{ media_id: string }>(res)).media_id;
+  });
+
+/**
+ * Everything in the export WeChat would reject: images over the per-image
+ * limit or in a format it does not take, and content over the total limit.
+ * Empty when the draft should go through.
+ */
+export const checkWechatLimits = (exported: WechatExportResult, cover: ExportedImage | null): string[] => {
+  const warnings: string[] = [];
+  const check = (image: ExportedImage, maxBytes: number) => {
+    if (image.blob.size > maxBytes) {
+      warnings.push(`${image.fileName} is ${formatBytes(image.blob.size)}, over the ${formatBytes(maxBytes)} limit.`);
+    }
+    if (!WECHAT_IMAGE_TYPES.includes(image.blob.type)) {
+      warnings.push(`${image.fileName} is ${image.blob.type || 'of unknown type'}; WeChat only accepts JPEG and PNG.`);
+    }
+  };
+  if (cover && !exported.images.includes(cover)) check(cover, WECHAT_COVER_MAX_BYTES);
+  exported.images.forEach(image => check(image, WECHAT_IMAGE_MAX_BYTES));
+  const contentBytes = new Blob([exported.html]).size;
+  if (contentBytes > WECHAT_CONTENT_MAX_BYTES) {
+    warnings.push(`The article content is ${formatBytes(contentBytes)}, over the ${formatBytes(WECHAT_CONTENT_MAX_BYTES)} limit.`);
+  }
+  return warnings;
+};
+
+const truncate = (value: string, max: number) => (value.length > max ? `${value.slice(0, max - 1)}…` : value);
+
+/**
+ * Uploads the cover and every exported image, rewrites the content to the
+ * returned URLs and creates a draft in the Official Account's 草稿箱.
+ */
+export const publishDraft = async (
+  config: WechatConfig,
+  article: AnyArticle,
+  title: string, // as edited in the preview
+  exported: WechatExportResult,
+  cover: ExportedImage,
+  onProgress: (status: string) => void
+): Promise<PublishResult> => {
+  if (!config.appId || !config.appSecret) {
+    throw new ScholarError('auth', "WeChat AppID / AppSecret not configured", CHECK_CREDENTIALS);
+  }
+
+  try {
+    onProgress("Uploading cover image...");
+    const coverMaterial = await uploadCoverImage(config, cover);
+
+    const imageUrls: Record<string, string> = {};
+    for (const [i, image] of exported.images.entries()) {
+      onProgress(`Uploading image ${i + 1}/${exported.images.length}...`);
+      imageUrls[image.fileName] = await uploadArticleImage(config, image);
+    }
+
+    onProgress("Creating draft...");
+    const draftMediaId = await addDraft(config, {
+      title: truncate(title, MAX_TITLE_LENGTH),
+      author: config.author ? truncate(config.author, MAX_AUTHOR_LENGTH) : undefined,
+      digest: truncate(article.summary, MAX_DIGEST_LENGTH),
+      content: withImageSources(exported, image => imageUrls[image.fileName] ?? null),
+      content_source_url: isRoundup(article) ? undefined : article.meta.link || undefined,
+      thumb_media_id: coverMaterial.media_id,
+      need_open_comment: 0
+    });
+
+    return { draftMediaId, coverMediaId: coverMaterial.media_id, coverUrl: coverMaterial.url, imageUrls };
+  } catch (error) {
+    console.error("WeChat Publish Error:", error);
+    throw classifyError(error);
+  }
+};
@@ -1,13 +1,24 @@
+// A passage of the paper a piece of the article is based on.
+export interface SourceAnchor {
+  page: number; // 1-based PDF page
+  quote: string; // verbatim from the paper, to find the passage on the page
+}
+
 export interface ArticleSection {
   title: string;
   content: string;
+  sources?: (SourceAnchor & { paragraph: number })[]; // paragraph: 1-based, in `content`
+  originalContent?: string; // bilingual mode: the same text in the paper's language, paragraph for paragraph
   highlight?: string;
   englishTerms?: string[];
   suggestedFigureLocation?: string; // e.g. "Page 3"
+  suggestedTableLocation?: string; // e.g. "Table 2"
 }
 
 export interface GeneratedArticle {
   title: string;
+  language?: OutputLanguage; // absent on articles written before the option existed: zh-CN
+  profileId?: string; // the prompt profile it was written with; absent before profiles: the default one
   coverImagePrompt?: string;
   summary: string;
   sections: ArticleSection[];
@@ -19,6 +30,34 @@ export interface GeneratedArticle {
   };
 }
 
+// One paper in a "本周精选" roundup.
+export interface RoundupCard {
+  title: string;
+  venue: string;
+  summary: string;
+  link?: string;
+  figure?: {
+    src: string;
+    caption: string;
+  };
+}
+
+// A post combining several generated articles: intro, one card per paper and a
+// closing comparison.
+export interface RoundupArticle {
+  kind: 'roundup';
+  title: string;
+  summary: string; // the intro
+  coverImagePrompt?: string;
+  cards: RoundupCard[];
+  comparison: {
+    title: string;
+    content: string;
+  };
+}
+
+export type AnyArticle = GeneratedArticle | RoundupArticle;
+
 export enum ProcessingState {
   IDLE = 'IDLE',
   READING = 'READING',
@@ -33,3 +72,100 @@ export enum ImageGenerationState {
   COMPLETE = 'COMPLETE',
   ERROR = 'ERROR'
 }
+
+export type CoverImageSize = "1K" | "2K" | "4K";
+
+// 'headline': the 2.35:1 cover above the article; 'square': the 1:1 thumbnail shown when it is shared.
+export type CoverAspect = 'headline' | 'square';
+
+export type CoverStyle = 'editorial' | 'flat-vector' | 'photographic' | 'lab-brand';
+
+// Every cover candidate generated for a paper, and the one picked per format.
+export interface CoverSet {
+  candidates: Record<CoverAspect, string[]>;
+  selected: Partial<Record<CoverAspect, string>>;
+}
+
+export type OutputLanguage = 'zh-CN' | 'zh-TW' | 'en' | 'ja';
+
+// How a translated paragraph and its original are laid out.
+export type BilingualLayout = 'alternating' | 'side-by-side';
+
+// 'staged' summarizes the paper part by part before composing the article;
+// 'auto' switches to it for long documents.
+export type GenerationMode = 'auto' | 'single' | 'staged';
+
+// How the article is asked of the model, defined as data so each column of the
+// account can have its own structure and share it as JSON.
+export interface PromptProfile {
+  id: string;
+  name: string;
+  instructions: string; // role, tone and formatting rules; the structure below is appended
+  titlePattern: string; // e.g. "文献分享 | [Conference/Journal Name] [Chinese Translated Title]"
+  sections: {
+    title: string; // e.g. "研究背景"; numbered "01 ..." in the output
+    guidance: string;
+  }[];
+  // Schema descriptions the model sees per field
+  fields: {
+    title: string; // examples and fallbacks on top of the pattern
+    summary: string;
+    content: string;
+    highlight: string;
+  };
+}
+
+export type SectionHeaderStyle = 'big-number' | 'numbered-bar' | 'underline' | 'boxed';
+export type HighlightBoxStyle = 'dashed' | 'left-bar' | 'filled' | 'quote';
+
+// A layout for the article preview and exports, defined purely as data so it can
+// be shared as JSON.
+export interface ArticleTheme {
+  id: string;
+  name: string;
+  colors: {
+    primary: string; // section rules, summary bar, term tags
+    text: string;
+    muted: string; // byline, captions, footer
+    accent: string; // venue, highlight box
+    sectionNumber: string;
+    summaryBackground: string;
+    highlightBackground: string;
+    termBackground: string;
+    footerBackground: string;
+  };
+  fonts: {
+    body: string;
+    heading: string;
+  };
+  bodyFontSize: number; // px
+  headerStyle: SectionHeaderStyle;
+  highlightStyle: HighlightBoxStyle;
+  summaryLabel: string;
+  highlightLabel: string;
+  footerText: string;
+  qrCode?: {
+    imageUrl: string;
+    caption: string;
+  };
+}
+
+// The editable article. The preview and every exporter walk these blocks in
+// order; text fields keep the model's **bold** markup.
+export type ArticleBlock =
+  | { id: string; type: 'heading'; text: string }
+  | { id: string; type: 'paragraph'; text: string; original?: string; sources?: SourceAnchor[] } // original: bilingual mode
+  | { id: string; type: 'terms'; terms: string[] }
+  | { id: string; type: 'figure'; figureId: string; src: string; caption: string }
+  | { id: string; type: 'table'; tableId: string; caption: string; rows: string[][] } // rows[0] is the header
+  | { id: string; type: 'highlight'; text: string }
+  | { id: string; type: 'quote'; text: string; summary?: boolean } // summary: the 摘要 box
+  | ({ id: string; type: 'paper-card' } & RoundupCard);
+
+export type ArticleBlockType = ArticleBlock['type'];
+
+export interface ArticleDocument {
+  title: string;
+  blocks: ArticleBlock[];
+  bilingualLayout?: BilingualLayout; // set when paragraphs carry their original text
+}
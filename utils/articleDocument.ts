@@ -0,0 +1,263 @@
+import { AnyArticle, ArticleBlock, ArticleDocument, ArticleSection, GeneratedArticle, RoundupArticle, SourceAnchor } from '../types';
+import { ExtractedImage } from './pdfUtils';
+import { captionNumber } from './figureExtraction';
+import { isRoundup, parseBoldSegments, splitParagraphs, stripSectionNumber } from './articleText';
+import { escapeHtml } from './wechatExport';
+
+export const newBlockId = () => `b-${Math.random().toString(36).slice(2, 10)}`;
+
+// "Fig. 3" / "Figure 3" -> "figure 3", keeping a sub-figure letter ("Figure 2b" -> "figure 2b").
+// Roman numerals are read as numbers ("Table IV" -> "table 4").
+const figureKey = (label: string) => {
+  const match = label.toLowerCase().match(/\b(fig(?:ure)?|tab(?:le)?)\.?\s*(?:(\d+)([a-z]?)|([ivx]+))\b/);
+  if (!match) return label.toLowerCase().trim();
+  const number = match[2] ? `${Number(match[2])}${match[3]}` : captionNumber(match[4]);
+  return `${match[1].startsWith('fig') ? 'figure' : 'table'} ${number}`;
+};
+
+const withoutSubFigure = (key: string) => key.replace(/(\d)[a-z]$/, '$1');
+
+/**
+ * Finds the extracted figure the model pointed at. Numbers must match exactly
+ * ("Table 1" is never "Table 12"); a sub-figure stands in for its whole figure and back.
+ */
+export const matchFigure = (label: string | undefined, images: ExtractedImage[]) => {
+  if (!label) return undefined;
+  const wanted = figureKey(label);
+  return images.find(img => figureKey(img.label) === wanted)
+    ?? images.find(img => withoutSubFigure(figureKey(img.label)) === withoutSubFigure(wanted));
+};
+
+export const figureBlock = (image: ExtractedImage): ArticleBlock => ({
+  id: newBlockId(),
+  type: 'figure',
+  figureId: image.id,
+  src: image.src,
+  caption: image.label
+});
+
+// Tables go in as an HTML grid when cells were recovered, otherwise as the cropped image.
+export const tableBlock = (image: ExtractedImage): ArticleBlock =>
+  image.rows?.length
+    ? { id: newBlockId(), type: 'table', tableId: image.id, caption: image.label, rows: image.rows }
+    : figureBlock(image);
+
+// Matches translated paragraphs with their originals by position; when the model
+// wrote more originals than paragraphs, the rest go with the last one.
+const pairParagraphs = (content: string, originalContent?: string): [string, string | undefined][] => {
+  const paragraphs = splitParagraphs(content);
+  const originals = originalContent ? splitParagraphs(originalContent) : [];
+  return paragraphs.map((text, i) => [
+    text,
+    i === paragraphs.length - 1 ? originals.slice(i).join(' ') || undefined : originals[i]
+  ]);
+};
+
+// The section's source anchors per paragraph. Numbers past the end (the model split
+// the text differently) go with the last paragraph; incomplete entries are skipped.
+const paragraphSources = (section: ArticleSection, count: number): SourceAnchor[][] => {
+  const result: SourceAnchor[][] = Array.from({ length: count }, () => []);
+  for (const { paragraph, page, quote } of section.sources ?? []) {
+    if (count === 0 || !(page > 0) || !quote?.trim()) continue;
+    const at = Math.min(Math.max(Math.round(paragraph) || 1, 1), count);
+    result[at - 1].push({ page, quote: quote.trim() });
+  }
+  return result;
+};
+
+/**
+ * Lays the generated article out as blocks: the summary, then for every section
+ * its heading, terms, paragraphs, the auto-matched figure and table, and the highlight.
+ */
+export const articleToDocument = (article: GeneratedArticle, images: ExtractedImage[]): ArticleDocument => {
+  const blocks: ArticleBlock[] = [{ id: newBlockId(), type: 'quote', text: article.summary, summary: true }];
+
+  article.sections.forEach(section => {
+    blocks.push({ id: newBlockId(), type: 'heading', text: stripSectionNumber(section.title) });
+    if (section.englishTerms?.length) {
+      blocks.push({ id: newBlockId(), type: 'terms', terms: section.englishTerms });
+    }
+    const paragraphs = pairParagraphs(section.content, section.originalContent);
+    const sources = paragraphSources(section, paragraphs.length);
+    paragraphs.forEach(([text, original], i) => blocks.push({
+      id: newBlockId(),
+      type: 'paragraph',
+      text,
+      ...(original ? { original } : {}),
+      ...(sources[i].length ? { sources: sources[i] } : {})
+    }));
+    const figure = matchFigure(section.suggestedFigureLocation, images);
+    if (figure) blocks.push(figureBlock(figure));
+    const table = matchFigure(section.suggestedTableLocation, images);
+    if (table) blocks.push(tableBlock(table));
+    if (section.highlight) {
+      blocks.push({ id: newBlockId(), type: 'highlight', text: section.highlight });
+    }
+  });
+
+  const bilingual = article.sections.some(section => section.originalContent?.trim());
+  return { title: article.title, blocks, ...(bilingual ? { bilingualLayout: 'alternating' as const } : {}) };
+};
+
+// Roundups: intro paragraphs, one card per paper, then the comparison section.
+export const roundupToDocument = (roundup: RoundupArticle): ArticleDocument => {
+  const paragraphs = (text: string) => splitParagraphs(text).map((p): ArticleBlock => ({ id: newBlockId(), type: 'paragraph', text: p }));
+  return {
+    title: roundup.title,
+    blocks: [
+      ...paragraphs(roundup.summary),
+      ...roundup.cards.map((card): ArticleBlock => ({ id: newBlockId(), type: 'paper-card', ...card })),
+      { id: newBlockId(), type: 'heading', text: stripSectionNumber(roundup.comparison.title) },
+      ...paragraphs(roundup.comparison.content)
+    ]
+  };
+};
+
+export const toDocument = (article: AnyArticle, images: ExtractedImage[]) =>
+  isRoundup(article) ? roundupToDocument(article) : articleToDocument(article, images);
+
+// --- Block operations (all return a new array) ---------------------------------
+
+export const updateBlock = (blocks: ArticleBlock[], id: string, patch: Partial<ArticleBlock>) =>
+  blocks.map(b => (b.id === id ? ({ ...b, ...patch } as ArticleBlock) : b));
+
+export const removeBlock = (blocks: ArticleBlock[], id: string) => blocks.filter(b => b.id !== id);
+
+// Inserts after `afterId`, or at the end when it is null or gone.
+export const insertBlockAfter = (blocks: ArticleBlock[], afterId: string | null, block: ArticleBlock) => {
+  const idx = afterId ? blocks.findIndex(b => b.id === afterId) : -1;
+  if (idx === -1) return [...blocks, block];
+  return [...blocks.slice(0, idx + 1), block, ...blocks.slice(idx + 1)];
+};
+
+export const moveBlock = (blocks: ArticleBlock[], id: string, targetId: string, position: 'before' | 'after') => {
+  const moving = blocks.find(b => b.id === id);
+  if (!moving || id === targetId) return blocks;
+  const rest = blocks.filter(b => b.id !== id);
+  const targetIdx = rest.findIndex(b => b.id === targetId);
+  if (targetIdx === -1) return blocks;
+  const at = position === 'before' ? targetIdx : targetIdx + 1;
+  return [...rest.slice(0, at), moving, ...rest.slice(at)];
+};
+
+// The heading a block sits under, or null before the first heading (the summary).
+export const sectionHeadingOf = (blocks: ArticleBlock[], id: string) => {
+  let heading: ArticleBlock | null = null;
+  for (const block of blocks) {
+    if (block.type === 'heading') heading = block;
+    if (block.id === id) return heading;
+  }
+  return null;
+};
+
+// The blocks after a heading, up to the next one.
+export const sectionBlocks = (blocks: ArticleBlock[], headingId: string) => {
+  const start = blocks.findIndex(b => b.id === headingId);
+  if (start === -1) return [];
+  const end = blocks.findIndex((b, i) => i > start && b.type === 'heading');
+  return blocks.slice(start + 1, end === -1 ? undefined : end);
+};
+
+/**
+ * Swaps a section's paragraphs for new ones, in the places the old ones held, so
+ * figures, tables and terms stay where they were; extra paragraphs go after the
+ * last old one. The highlight is replaced, or added at the end, when given.
+ */
+export const replaceSectionText = (blocks: ArticleBlock[], headingId: string, paragraphs: string[], highlight?: string) => {
+  const start = blocks.findIndex(b => b.id === headingId) + 1;
+  if (start === 0) return blocks;
+  const section = sectionBlocks(blocks, headingId);
+  const lastParagraph = section.filter(b => b.type === 'paragraph').pop();
+  const newParagraph = (text: string): ArticleBlock => ({ id: newBlockId(), type: 'paragraph', text });
+
+  let used = 0;
+  const next: ArticleBlock[] = [];
+  section.forEach(block => {
+    if (block.type === 'paragraph') {
+      // Keeps the block id; a bilingual original no longer matches, so it goes
+      if (used < paragraphs.length) next.push({ id: block.id, type: 'paragraph', text: paragraphs[used++] });
+      if (block === lastParagraph) next.push(...paragraphs.slice(used).map(newParagraph));
+    } else {
+      next.push(block.type === 'highlight' && highlight ? { ...block, text: highlight } : block);
+    }
+  });
+  if (!lastParagraph) {
+    // No paragraphs before: the new ones go first, after the term tags
+    const at = next.findIndex(b => b.type !== 'terms');
+    next.splice(at === -1 ? next.length : at, 0, ...paragraphs.map(newParagraph));
+  }
+  if (highlight && !section.some(b => b.type === 'highlight')) {
+    next.push({ id: newBlockId(), type: 'highlight', text: highlight });
+  }
+  return [...blocks.slice(0, start), ...next, ...blocks.slice(start + section.length)];
+};
+
+// Section number of every heading block, in document order (0-based).
+export const headingNumbers = (blocks: ArticleBlock[]) => {
+  const numbers = new Map<string, number>();
+  blocks.forEach(b => {
+    if (b.type === 'heading') numbers.set(b.id, numbers.size);
+  });
+  return numbers;
+};
+
+export const documentToPlainText = (doc: ArticleDocument) =>
+  [doc.title, ...doc.blocks.map(b => {
+    switch (b.type) {
+      case 'terms': return b.terms.join(' · ');
+      case 'figure': return `▼ ${b.caption}`;
+      case 'table': return [b.caption, ...b.rows.map(row => row.join('\t'))].join('\n');
+      case 'paper-card': return [b.title, b.venue, b.summary.replace(/\*\*/g, ''), b.link].filter(Boolean).join('\n');
+      case 'paragraph': return [b.text, b.original].filter(Boolean).join('\n').replace(/\*\*/g, '');
+      default: return b.text.replace(/\*\*/g, '');
+    }
+  })].join('\n\n');
+
+// --- Editable text <-> **bold** markup -------------------------------------------
+
+export const boldTextToHtml = (text: string) =>
+  parseBoldSegments(text).map(s => (s.bold ? `<strong>${escapeHtml(s.text)}</strong>` : escapeHtml(s.text))).join('');
+
+// Maps [start, end) in the displayed text back to offsets in the **bold** markup.
+// A range that starts or ends inside a bold run takes the whole run, so it never
+// holds half a marker pair.
+export const markupRange = (text: string, start: number, end: number) => {
+  let plain = 0;
+  let raw = 0;
+  let from = -1;
+  let to = -1;
+  for (const segment of parseBoldSegments(text)) {
+    const rawLength = segment.text.length + (segment.bold ? 4 : 0);
+    if (from < 0 && start < plain + segment.text.length) from = segment.bold ? raw : raw + start - plain;
+    if (to < 0 && end <= plain + segment.text.length) to = segment.bold ? raw + rawLength : raw + end - plain;
+    plain += segment.text.length;
+    raw += rawLength;
+  }
+  return { start: from < 0 ? raw : from, end: to < 0 ? raw : to };
+};
+
+const isBoldElement = (el: HTMLElement) =>
+  el.tagName === 'STRONG' || el.tagName === 'B' || Number(el.style.fontWeight) >= 600 || el.style.fontWeight === 'bold';
+
+/**
+ * Reads an edited block back into **bold** markup. Anything else the browser or a
+ * paste leaves behind (spans, line breaks, nested blocks) is flattened to text.
+ */
+export const readEditableText = (root: HTMLElement): string => {
+  const walk = (node: Node, bold: boolean): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      return bold && text.trim() ? `**${text}**` : text;
+    }
+    if (!(node instanceof HTMLElement)) return '';
+    if (node.tagName === 'BR') return ' ';
+    const inner = Array.from(node.childNodes).map(child => walk(child, bold || isBoldElement(node))).join('');
+    return node.tagName === 'DIV' || node.tagName === 'P' ? ` ${inner}` : inner;
+  };
+  // The block element itself may be styled bold (headings); only its contents count.
+  return Array.from(root.childNodes).map(child => walk(child, false)).join('')
+    .replace(/\*\*\*\*/g, '')
+    .replace(/\u00a0/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
@@ -0,0 +1,475 @@
+import JSZip from 'jszip';
+import {
+  AlignmentType, BorderStyle, Document, ExternalHyperlink, HeadingLevel, ImageRun, Packer, Paragraph, ShadingType, Table, TableCell,
+  TableRow, TextRun, WidthType
+} from 'docx';
+import { AnyArticle, ArticleDocument, ArticleTheme } from '../types';
+import { articleByline, articleLanguage, formatSectionNumber, parseBoldSegments, sectionHeading, sourceEntries } from './articleText';
+import { boldTextToHtml, headingNumbers } from './articleDocument';
+import { blobToDataUrl } from './imageProcessing';
+import { CLASSIC_THEME } from './themes';
+import { escapeHtml } from './wechatExport';
+
+export interface ArticleExportInput {
+  article: AnyArticle; // metadata for the byline and footer
+  document: ArticleDocument; // the edited content
+  coverImageUrl?: string;
+  theme?: ArticleTheme; // defaults to the classic theme
+}
+
+export type MarkdownImageMode = 'files' | 'data-uri';
+
+const safeFileName = (value: string) => value.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'article';
+
+const extensionOf = (src: string) => {
+  const mime = /^data:([^;,]+)/.exec(src)?.[1] || '';
+  if (mime.includes('jpeg')) return 'jpg';
+  if (mime.includes('svg')) return 'svg';
+  if (mime.includes('webp')) return 'webp';
+  return 'png';
+};
+
+/**
+ * Extracted figures are blob: URLs, which mean nothing outside this tab. Reads
+ * every one the export refers to and returns a lookup that swaps it for a data URI.
+ */
+const inlineBlobUrls = async (input: ArticleExportInput) => {
+  const sources = [
+    input.coverImageUrl,
+    input.theme?.qrCode?.imageUrl,
+    ...input.document.blocks.map(b => (b.type === 'figure' ? b.src : b.type === 'paper-card' ? b.figure?.src : undefined))
+  ];
+  const inlined = new Map<string, string>();
+  for (const src of sources) {
+    if (src?.startsWith('blob:') && !inlined.has(src)) inlined.set(src, await blobToDataUrl(await (await fetch(src)).blob()));
+  }
+  return (src: string) => inlined.get(src) ?? src;
+};
+
+// --- Markdown -----------------------------------------------------------------
+
+const markdownTable = (rows: string[][]) => {
+  const line = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(header.map(() => '---')), ...body.map(line)];
+};
+
+const footerLines = (article: AnyArticle, theme: ArticleTheme) => [
+  ...sourceEntries(article).map(({ label, value }) => `**${label}** ${value}`),
+  ...(theme.footerText ? [`*${theme.footerText}*`] : [])
+];
+
+/**
+ * Markdown in the same order as the preview. Bold markup is kept as-is; images
+ * either point into an `images/` folder (returned as a ZIP) or are inlined as data URIs.
+ */
+export const exportMarkdown = async (input: ArticleExportInput, imageMode: MarkdownImageMode): Promise<Blob> => {
+  const { article } = input;
+  const theme = input.theme ?? CLASSIC_THEME;
+  const files: { name: string; src: string }[] = [];
+  const inline = await inlineBlobUrls(input);
+
+  const imageRef = (url: string, alt: string) => {
+    const src = inline(url);
+    if (imageMode === 'data-uri' || !src.startsWith('data:')) return `![${alt}](${src})`;
+    const name = `images/${String(files.length + 1).padStart(2, '0')}-${safeFileName(alt)}.${extensionOf(src)}`;
+    files.push({ name, src });
+    return `![${alt}](${name})`;
+  };
+
+  const { title, blocks } = input.document;
+  const numbers = headingNumbers(blocks);
+  const byline = articleByline(article);
+  const lines: string[] = [`# ${title}`, '', `${byline.author} · ${byline.venue}`, ''];
+  if (input.coverImageUrl) lines.push(imageRef(input.coverImageUrl, 'cover'), '');
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        return lines.push(`## ${sectionHeading(block.text, numbers.get(block.id)!)}`, '');
+      case 'terms':
+        return lines.push(block.terms.map(t => `\`${t}\``).join(' '), '');
+      case 'paragraph':
+        // No columns in Markdown: side-by-side reads as alternating
+        lines.push(block.text, '');
+        if (block.original) lines.push(`*${block.original.replace(/\*\*/g, '')}*`, '');
+        return;
+      case 'figure':
+        return lines.push(imageRef(block.src, block.caption), '', `*▼ ${block.caption}*`, '');
+      case 'table':
+        return lines.push(`*▼ ${block.caption}*`, '', ...markdownTable(block.rows), '');
+      case 'highlight':
+        return lines.push(`> **${theme.highlightLabel}** ${block.text}`, '');
+      case 'quote':
+        return lines.push(block.summary ? `> **${theme.summaryLabel}** ${block.text}` : `> ${block.text}`, '');
+      case 'paper-card':
+        lines.push(`### ${block.title}`, '', `*${block.venue}*`, '', block.summary, '');
+        if (block.figure) lines.push(imageRef(block.figure.src, block.figure.caption), '', `*▼ ${block.figure.caption}*`, '');
+        if (block.link) lines.push(`[原文链接](${block.link})`, '');
+        return;
+    }
+  });
+
+  lines.push('---', '', ...footerLines(article, theme).flatMap(l => [l, '']));
+  if (theme.qrCode) {
+    lines.push(imageRef(theme.qrCode.imageUrl, 'qrcode'), '', theme.qrCode.caption, '');
+  }
+  const markdown = lines.join('\n');
+
+  if (files.length === 0) {
+    return new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+  }
+  const zip = new JSZip();
+  zip.file('article.md', markdown);
+  for (const file of files) {
+    zip.file(file.name, await (await fetch(file.src)).blob());
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- Standalone HTML ----------------------------------------------------------
+
+const standaloneCss = ({ colors, fonts, bodyFontSize }: ArticleTheme) => `
+  body { margin: 0; background: #f5f5f5; color: ${colors.text}; font-family: ${fonts.body}; }
+  article { max-width: 680px; margin: 0 auto; background: #fff; padding: 32px 24px; line-height: 1.8; font-size: ${bodyFontSize}px; }
+  h1, h2 { font-family: ${fonts.heading}; }
+  h1 { font-size: 24px; line-height: 1.4; margin: 0 0 10px; }
+  .byline { font-size: 14px; color: ${colors.muted}; margin-bottom: 20px; }
+  .byline .venue { margin-left: 10px; color: ${colors.accent}; }
+  .cover { width: 100%; border-radius: 8px; margin-bottom: 24px; }
+  .summary, .quote { background: ${colors.summaryBackground}; padding: 16px; border-radius: 6px; border-left: 4px solid ${colors.primary}; margin-bottom: 32px; }
+  .quote { background: none; border-left-color: ${colors.muted}; font-style: italic; }
+  h2 { font-size: 18px; margin: 40px 0 16px; }
+  h2 .num { font-size: 32px; font-weight: 900; color: ${colors.sectionNumber}; margin-right: 8px; }
+  h2 .title { border-bottom: 2px solid ${colors.primary}; padding-bottom: 4px; }
+  .terms span { display: inline-block; background: ${colors.termBackground}; color: ${colors.primary}; font-size: 12px; padding: 2px 8px; border-radius: 4px; margin: 0 6px 4px 0; }
+  p { text-align: justify; margin: 0 0 16px; }
+  p.original { text-align: left; color: ${colors.muted}; font-size: ${bodyFontSize - 2}px; margin-top: -10px; }
+  .bilingual { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .bilingual p.original { margin-top: 0; border-left: 1px solid ${colors.termBackground}; padding-left: 12px; }
+  figure { margin: 20px 0; text-align: center; }
+  figure img { max-width: 100%; border-radius: 6px; border: 1px solid #f0f0f0; }
+  figcaption { font-size: 13px; color: ${colors.muted}; margin-top: 8px; }
+  .table { overflow-x: auto; }
+  .table figcaption { margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; line-height: 1.5; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #eee; text-align: center; }
+  th { color: ${colors.primary}; background: ${colors.termBackground}; border-bottom-color: ${colors.primary}; }
+  th:first-child, td:first-child { text-align: left; }
+  .highlight { margin-top: 16px; padding: 12px; border: 1px dashed ${colors.accent}; border-radius: 6px; color: ${colors.accent}; font-size: 14px; background: ${colors.highlightBackground}; }
+  footer { margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px; font-size: 13px; color: ${colors.muted}; }
+  footer p { margin-bottom: 8px; word-break: break-all; }
+  .card { border: 1px solid ${colors.termBackground}; border-top: 3px solid ${colors.primary}; border-radius: 6px; padding: 16px; margin: 24px 0; }
+  .card h3 { font-family: ${fonts.heading}; font-size: 17px; margin: 0 0 4px; }
+  .card .venue { font-size: 13px; color: ${colors.accent}; margin-bottom: 12px; }
+  .card a { font-size: 13px; color: ${colors.primary}; }
+  .qrcode { text-align: center; margin-top: 24px; font-size: 13px; color: ${colors.muted}; }
+  .qrcode img { width: 120px; height: 120px; }
+`;
+
+// One self-contained page: styles in <style>, every image as a data URI.
+export const exportStandaloneHtml = async (input: ArticleExportInput): Promise<Blob> => {
+  const { article } = input;
+  const inline = await inlineBlobUrls(input);
+  const theme = input.theme ?? CLASSIC_THEME;
+  const { title, blocks } = input.document;
+  const numbers = headingNumbers(blocks);
+  const byline = articleByline(article);
+  const parts: string[] = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<div class="byline"><span>${escapeHtml(byline.author)}</span><span class="venue">${escapeHtml(byline.venue)}</span></div>`
+  ];
+  if (input.coverImageUrl) parts.push(`<img class="cover" src="${escapeHtml(inline(input.coverImageUrl))}" alt="Cover">`);
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        return parts.push(`<h2><span class="num">${formatSectionNumber(numbers.get(block.id)!)}</span><span class="title">${boldTextToHtml(block.text)}</span></h2>`);
+      case 'terms':
+        return parts.push(`<div class="terms">${block.terms.map(t => `<span>${escapeHtml(t)}</span>`).join('')}</div>`);
+      case 'paragraph': {
+        const paragraph = `<p>${boldTextToHtml(block.text)}</p>`;
+        if (!block.original) return parts.push(paragraph);
+        const original = `<p class="original">${boldTextToHtml(block.original)}</p>`;
+        return parts.push(input.document.bilingualLayout === 'side-by-side' ? `<div class="bilingual">${paragraph}${original}</div>` : paragraph + original);
+      }
+      case 'figure':
+        return parts.push(`<figure><img src="${escapeHtml(inline(block.src))}" alt="${escapeHtml(block.caption)}"><figcaption>▼ ${escapeHtml(block.caption)}</figcaption></figure>`);
+      case 'table': {
+        const row = (cells: string[], tag: 'th' | 'td') => `<tr>${cells.map(c => `<${tag}>${boldTextToHtml(c)}</${tag}>`).join('')}</tr>`;
+        const [header, ...body] = block.rows;
+        return parts.push(`<figure class="table"><figcaption>▼ ${escapeHtml(block.caption)}</figcaption><table><thead>${row(header, 'th')}</thead><tbody>${body.map(r => row(r, 'td')).join('')}</tbody></table></figure>`);
+      }
+      case 'highlight':
+        return parts.push(`<div class="highlight"><strong>${escapeHtml(theme.highlightLabel)}</strong> ${boldTextToHtml(block.text)}</div>`);
+      case 'quote':
+        return parts.push(block.summary
+          ? `<div class="summary"><strong>${escapeHtml(theme.summaryLabel)}</strong>${boldTextToHtml(block.text)}</div>`
+          : `<blockquote class="quote">${boldTextToHtml(block.text)}</blockquote>`);
+      case 'paper-card':
+        return parts.push([
+          '<div class="card">',
+          `<h3>${escapeHtml(block.title)}</h3>`,
+          `<div class="venue">${escapeHtml(block.venue)}</div>`,
+          `<p>${boldTextToHtml(block.summary)}</p>`,
+          block.figure ? `<figure><img src="${escapeHtml(inline(block.figure.src))}" alt="${escapeHtml(block.figure.caption)}"><figcaption>▼ ${escapeHtml(block.figure.caption)}</figcaption></figure>` : '',
+          block.link ? `<a href="${escapeHtml(block.link)}">原文链接</a>` : '',
+          '</div>'
+        ].join(''));
+    }
+  });
+
+  parts.push('<footer>');
+  sourceEntries(article).forEach(({ label, value, link }) => {
+    const content = link ? `<a href="${escapeHtml(link)}">${escapeHtml(value)}</a>` : escapeHtml(value);
+    parts.push(`<p><strong>${escapeHtml(label)}</strong> ${content}</p>`);
+  });
+  if (theme.footerText) parts.push(`<p><em>${escapeHtml(theme.footerText)}</em></p>`);
+  parts.push('</footer>');
+  if (theme.qrCode) {
+    parts.push(`<div class="qrcode"><img src="${escapeHtml(inline(theme.qrCode.imageUrl))}" alt="QR code"><p>${escapeHtml(theme.qrCode.caption)}</p></div>`);
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="${articleLanguage(article)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${standaloneCss(theme)}</style>
+</head>
+<body><article>
+${parts.join('\n')}
+</article></body>
+</html>`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
+
+// --- DOCX ---------------------------------------------------------------------
+
+const DOCX_IMAGE_MAX_WIDTH = 600; // px, fits an A4 page with default margins
+
+// docx only embeds raster formats, so everything goes through a canvas as PNG.
+const rasterize = (src: string): Promise<{ data: ArrayBuffer; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas not available'));
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(async blob => {
+        if (!blob) return reject(new Error('Could not encode image'));
+        const scale = Math.min(1, DOCX_IMAGE_MAX_WIDTH / img.naturalWidth);
+        resolve({ data: await blob.arrayBuffer(), width: img.naturalWidth * scale, height: img.naturalHeight * scale });
+      }, 'image/png');
+    };
+    img.onerror = () => reject(new Error(`Could not load image ${src.slice(0, 40)}`));
+    img.src = src;
+  });
+
+const boldRuns = (text: string, options: { color?: string; size?: number; italics?: boolean } = {}) =>
+  parseBoldSegments(text).map(s => new TextRun({ text: s.text, bold: s.bold, ...options }));
+
+// docx wants six hex digits without the '#'. Short hex and rgb() are expanded,
+// alpha is dropped, and a colour that cannot be read falls back.
+const hex = (color: string, fallback = '333333') => {
+  const value = color.trim();
+  const short = value.match(/^#([0-9a-f]{3})[0-9a-f]?$/i);
+  if (short) return short[1].split('').map(c => c + c).join('').toUpperCase();
+  const long = value.match(/^#([0-9a-f]{6})(?:[0-9a-f]{2})?$/i);
+  if (long) return long[1].toUpperCase();
+  const rgb = value.match(/^rgba?\(\s*([\d.]+%?)[\s,]+([\d.]+%?)[\s,]+([\d.]+%?)/i);
+  if (!rgb) return fallback;
+  return rgb.slice(1).map(channel => {
+    const n = parseFloat(channel) * (channel.endsWith('%') ? 2.55 : 1);
+    return Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0');
+  }).join('').toUpperCase();
+};
+
+const imageParagraphs = async (src: string, caption?: string, captionColor = '#888888'): Promise<Paragraph[]> => {
+  try {
+    const { data, width, height } = await rasterize(src);
+    const result = [new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new ImageRun({ type: 'png', data, transformation: { width, height } })]
+    })];
+    if (caption) {
+      result.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `▼ ${caption}`, color: hex(captionColor), size: 20 })] }));
+    }
+    return result;
+  } catch (e) {
+    console.warn('Skipping image in DOCX export', e);
+    return [];
+  }
+};
+
+const docxTable = (rows: string[][], theme: ArticleTheme) => {
+  const none = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: { top: none, bottom: none, left: none, right: none, insideHorizontal: none, insideVertical: none },
+    rows: rows.map((cells, rIdx) => new TableRow({
+      tableHeader: rIdx === 0,
+      children: cells.map((cell, cIdx) => new TableCell({
+        shading: rIdx === 0 ? { type: ShadingType.CLEAR, fill: hex(theme.colors.termBackground), color: 'auto' } : undefined,
+        borders: { bottom: { style: BorderStyle.SINGLE, size: rIdx === 0 ? 8 : 4, color: rIdx === 0 ? hex(theme.colors.primary) : 'EEEEEE' } },
+        children: [new Paragraph({
+          alignment: cIdx === 0 ? AlignmentType.LEFT : AlignmentType.CENTER,
+          children: rIdx === 0
+            ? [new TextRun({ text: cell.replace(/\*\*/g, ''), bold: true, color: hex(theme.colors.primary), size: 20 })]
+            : boldRuns(cell, { size: 20 })
+        })]
+      }))
+    }))
+  });
+};
+
+// Translation and original as two borderless columns.
+const bilingualTable = (paragraph: Paragraph, original: Paragraph) => {
+  const none = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+  const cell = (child: Paragraph) => new TableCell({ width: { size: 50, type: WidthType.PERCENTAGE }, children: [child] });
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: { top: none, bottom: none, left: none, right: none, insideHorizontal: none, insideVertical: none },
+    rows: [new TableRow({ children: [cell(paragraph), cell(original)] })]
+  });
+};
+
+export const exportDocx = async (input: ArticleExportInput): Promise<Blob> => {
+  const { article } = input;
+  const theme = input.theme ?? CLASSIC_THEME;
+  const { colors } = theme;
+  const { title, blocks } = input.document;
+  const numbers = headingNumbers(blocks);
+  const byline = articleByline(article);
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun({ text: title, bold: true })] }),
+    new Paragraph({
+      children: [
+        new TextRun({ text: byline.author, color: hex(colors.muted) }),
+        new TextRun({ text: `    ${byline.venue}`, color: hex(colors.accent) })
+      ]
+    })
+  ];
+
+  if (input.coverImageUrl) children.push(...await imageParagraphs(input.coverImageUrl));
+
+  const highlightLine = { style: theme.highlightStyle === 'dashed' ? BorderStyle.DASHED : BorderStyle.SINGLE, size: 6, color: hex(colors.accent), space: 4 };
+  const highlightColor = theme.highlightStyle === 'filled' ? 'FFFFFF' : hex(theme.highlightStyle === 'quote' ? colors.text : colors.accent);
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        children.push(new Paragraph({
+          heading: HeadingLevel.HEADING_2,
+          border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: hex(colors.primary), space: 4 } },
+          children: [new TextRun({ text: sectionHeading(block.text, numbers.get(block.id)!).replace(/\*\*/g, '') })]
+        }));
+        break;
+      case 'terms':
+        children.push(new Paragraph({ children: [new TextRun({ text: block.terms.join(' · '), color: hex(colors.primary), size: 20 })] }));
+        break;
+      case 'paragraph': {
+        const paragraph = new Paragraph({ alignment: AlignmentType.JUSTIFIED, spacing: { after: block.original ? 80 : 200, line: 360 }, children: boldRuns(block.text) });
+        if (!block.original) {
+          children.push(paragraph);
+          break;
+        }
+        const original = new Paragraph({ spacing: { after: 200, line: 320 }, children: boldRuns(block.original, { color: hex(colors.muted), size: 20 }) });
+        children.push(...(input.document.bilingualLayout === 'side-by-side' ? [bilingualTable(paragraph, original)] : [paragraph, original]));
+        break;
+      }
+      case 'figure':
+        children.push(...await imageParagraphs(block.src, block.caption, colors.muted));
+        break;
+      case 'table':
+        children.push(new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 200 },
+          children: [new TextRun({ text: `▼ ${block.caption}`, color: hex(colors.muted), size: 20 })]
+        }));
+        children.push(docxTable(block.rows, theme));
+        break;
+      case 'highlight':
+        children.push(new Paragraph({
+          shading: theme.highlightStyle === 'quote' ? undefined : { type: ShadingType.CLEAR, fill: hex(colors.highlightBackground), color: 'auto' },
+          border: theme.highlightStyle === 'dashed'
+            ? { top: highlightLine, bottom: highlightLine, left: highlightLine, right: highlightLine }
+            : { left: { ...highlightLine, size: 18 } },
+          spacing: { before: 200, after: 200 },
+          children: [
+            new TextRun({ text: theme.highlightLabel, bold: true, color: highlightColor, italics: theme.highlightStyle === 'quote' }),
+            ...boldRuns(block.text, { color: highlightColor })
+          ]
+        }));
+        break;
+      case 'quote':
+        children.push(block.summary
+          ? new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: hex(colors.summaryBackground), color: 'auto' },
+            border: { left: { style: BorderStyle.SINGLE, size: 24, color: hex(colors.primary), space: 8 } },
+            spacing: { before: 200, after: 400 },
+            children: [new TextRun({ text: theme.summaryLabel, bold: true }), ...boldRuns(block.text)]
+          })
+          : new Paragraph({
+            border: { left: { style: BorderStyle.SINGLE, size: 12, color: hex(colors.muted), space: 8 } },
+            spacing: { before: 200, after: 200 },
+            children: boldRuns(block.text, { color: hex(colors.muted), italics: true })
+          }));
+        break;
+      case 'paper-card':
+        children.push(new Paragraph({
+          heading: HeadingLevel.HEADING_3,
+          border: { top: { style: BorderStyle.SINGLE, size: 18, color: hex(colors.primary), space: 6 } },
+          spacing: { before: 400 },
+          children: [new TextRun({ text: block.title })]
+        }));
+        children.push(new Paragraph({ children: [new TextRun({ text: block.venue, color: hex(colors.accent), size: 20 })] }));
+        children.push(new Paragraph({ alignment: AlignmentType.JUSTIFIED, spacing: { after: 200, line: 360 }, children: boldRuns(block.summary) }));
+        if (block.figure) children.push(...await imageParagraphs(block.figure.src, block.figure.caption, colors.muted));
+        if (block.link) {
+          children.push(new Paragraph({
+            children: [new ExternalHyperlink({ link: block.link, children: [new TextRun({ text: '原文链接', style: 'Hyperlink', size: 20 })] })]
+          }));
+        }
+        break;
+    }
+  }
+
+  const muted = hex(colors.muted);
+  const footer = (label: string, value: string) =>
+    new Paragraph({ children: [new TextRun({ text: label, bold: true, color: muted, size: 20 }), new TextRun({ text: value, color: muted, size: 20 })] });
+
+  children.push(new Paragraph({ border: { top: { style: BorderStyle.SINGLE, size: 6, color: 'EEEEEE', space: 12 } }, spacing: { before: 600 }, children: [] }));
+  sourceEntries(article).forEach(({ label, value, link }) => {
+    children.push(link
+      ? new Paragraph({
+        children: [
+          new TextRun({ text: label, bold: true, color: muted, size: 20 }),
+          new ExternalHyperlink({ link, children: [new TextRun({ text: value, style: 'Hyperlink', size: 20 })] })
+        ]
+      })
+      : footer(label, value));
+  });
+  if (theme.footerText) {
+    children.push(new Paragraph({ spacing: { before: 200 }, children: [new TextRun({ text: theme.footerText, italics: true, color: muted, size: 20 })] }));
+  }
+  if (theme.qrCode) {
+    children.push(...await imageParagraphs(theme.qrCode.imageUrl, undefined));
+    children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: theme.qrCode.caption, color: muted, size: 20 })] }));
+  }
+
+  const doc = new Document({
+    styles: { default: { document: { run: { font: 'Microsoft YaHei', size: 24 } } } },
+    sections: [{ children }]
+  });
+  return Packer.toBlob(doc);
+};
+
+export const exportFileName = (article: AnyArticle, extension: string) => `${safeFileName(article.title)}.${extension}`;
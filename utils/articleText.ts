@@ -0,0 +1,111 @@
+import { AnyArticle, ArticleTheme, OutputLanguage, RoundupArticle } from '../types';
+
+// Shared by the preview and every exporter so the outputs read the same.
+export const FOOTER_DISCLAIMER = '本文仅为笔者对论文内容的理解，不代表原论文的官方观点，转载请注明出处。';
+export const HIGHLIGHT_LABEL = '💡 创新点与思考：';
+export const SUMMARY_LABEL = '摘要：';
+export const DEFAULT_JOURNAL = '学术前沿';
+
+// "01", "02", ...
+export const formatSectionNumber = (idx: number) => String(idx + 1).padStart(2, '0');
+
+// The model often numbers titles itself ("01 研究背景"); the layouts add their own.
+export const stripSectionNumber = (title: string) => title.replace(/^\d+\s*/, '');
+
+export const sectionHeading = (title: string, idx: number) =>
+  `${formatSectionNumber(idx)} ${stripSectionNumber(title)}`;
+
+export const firstAuthor = (authors: string) => authors.split(',')[0];
+
+export const splitParagraphs = (content: string) =>
+  content.split('\n').map(p => p.trim()).filter(Boolean);
+
+export interface TextSegment {
+  text: string;
+  bold: boolean;
+}
+
+// Splits the model's **bold** markup into runs.
+export const parseBoldSegments = (text: string): TextSegment[] =>
+  text
+    .split(/(\*\*.*?\*\*)/g)
+    .filter(Boolean)
+    .map(part =>
+      part.startsWith('**') && part.endsWith('**') && part.length > 4
+        ? { text: part.slice(2, -2), bold: true }
+        : { text: part, bold: false }
+    );
+
+export const isRoundup = (article: AnyArticle): article is RoundupArticle =>
+  'kind' in article && article.kind === 'roundup';
+
+export const ROUNDUP_VENUE = '本周精选';
+
+// Roundups are always written in Simplified Chinese.
+export const articleLanguage = (article: AnyArticle): OutputLanguage =>
+  isRoundup(article) ? 'zh-CN' : article.language ?? 'zh-CN';
+
+// The fixed wording around a single-paper article, per output language.
+const ARTICLE_LABELS: Record<OutputLanguage, {
+  etAl: string; title: string; authors: string; venue: string; link: string; summary: string; highlight: string; footer: string;
+}> = {
+  'zh-CN': {
+    etAl: ' 等', title: '原文标题：', authors: '作者单位：', venue: '期刊/会议：', link: '原文链接：',
+    summary: SUMMARY_LABEL, highlight: HIGHLIGHT_LABEL, footer: FOOTER_DISCLAIMER
+  },
+  'zh-TW': {
+    etAl: ' 等', title: '原文標題：', authors: '作者單位：', venue: '期刊/會議：', link: '原文連結：',
+    summary: '摘要：', highlight: '💡 創新點與思考：', footer: '本文僅為筆者對論文內容的理解，不代表原論文的官方觀點，轉載請註明出處。'
+  },
+  en: {
+    etAl: ' et al.', title: 'Title:', authors: 'Authors:', venue: 'Venue:', link: 'Link:',
+    summary: 'Summary: ', highlight: '💡 Contribution & Takeaways:', footer: "This article is the author's reading of the paper, not an official statement by its authors. Please credit the source when reposting."
+  },
+  ja: {
+    etAl: ' ほか', title: '原題：', authors: '著者：', venue: '掲載誌・会議：', link: '原文リンク：',
+    summary: '要旨：', highlight: '💡 新規性と考察：', footer: '本記事は筆者による論文の理解をまとめたものであり、原論文の公式見解ではありません。転載の際は出典を明記してください。'
+  }
+};
+
+// Swaps the stock Chinese labels and disclaimer of a theme for the article's language.
+// Wording a theme sets itself is left alone.
+export const localizeTheme = (theme: ArticleTheme, article: AnyArticle): ArticleTheme => {
+  const labels = ARTICLE_LABELS[articleLanguage(article)];
+  const stock = ARTICLE_LABELS['zh-CN'];
+  return {
+    ...theme,
+    summaryLabel: theme.summaryLabel === stock.summary ? labels.summary : theme.summaryLabel,
+    highlightLabel: theme.highlightLabel === stock.highlight ? labels.highlight : theme.highlightLabel,
+    footerText: theme.footerText === stock.footer ? labels.footer : theme.footerText
+  };
+};
+
+// The line under the title: authors and venue, or the paper count for a roundup.
+export const articleByline = (article: AnyArticle) =>
+  isRoundup(article)
+    ? { author: `${article.cards.length} 篇论文`, venue: ROUNDUP_VENUE }
+    : { author: `${firstAuthor(article.meta.authors)}${ARTICLE_LABELS[articleLanguage(article)].etAl}`, venue: article.meta.journal || DEFAULT_JOURNAL };
+
+export interface SourceEntry {
+  label: string;
+  value: string;
+  link?: string; // set when `value` is a URL worth linking
+}
+
+// The "where this comes from" lines above the footer disclaimer.
+export const sourceEntries = (article: AnyArticle): SourceEntry[] => {
+  if (isRoundup(article)) {
+    return article.cards.map((card, i) => ({
+      label: `论文 ${formatSectionNumber(i)}：`,
+      value: [card.title, card.venue && `（${card.venue}）`, card.link && ` ${card.link}`].filter(Boolean).join('')
+    }));
+  }
+  const { meta } = article;
+  const labels = ARTICLE_LABELS[articleLanguage(article)];
+  return [
+    { label: labels.title, value: article.title },
+    { label: labels.authors, value: meta.authors },
+    ...(meta.journal || meta.year ? [{ label: labels.venue, value: [meta.journal, meta.year].filter(Boolean).join(' ') }] : []),
+    ...(meta.link ? [{ label: labels.link, value: meta.link, link: meta.link }] : [])
+  ];
+};
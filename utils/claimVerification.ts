@@ -0,0 +1,153 @@
+// Checks the numbers and English terms an article states against the text of the
+// paper, page by page. Purely textual: a match means the paper mentions the value,
+// not that the article uses it correctly.
+import { ArticleBlock, ArticleDocument } from '../types';
+import { PdfPageText } from './pdfUtils';
+
+export type ClaimKind = 'number' | 'term';
+
+export interface ClaimCheck {
+  blockId: string;
+  text: string; // as written in the article, e.g. "87.5%" or "Swin Transformer"
+  kind: ClaimKind;
+  page: number | null; // first page with a supporting passage; null when none was found
+  excerpt?: string; // the passage around the match
+}
+
+export interface VerificationReport {
+  checkedAt: number;
+  pagesWithText: number; // 0 for scanned PDFs: nothing could be checked
+  checks: ClaimCheck[];
+}
+
+// A number with an optional unit; thousands separators allowed.
+const NUMBER_REGEX = /(?<![\w.])[-−+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?(?:\s?(?:%|×|倍|pp|[kKMBG]\b))?|(?<![\w.])[-−+]?\d+(?:\.\d+)?(?:\s?(?:%|×|倍|pp|[kKMBG]\b))?/g;
+// Numbers that point somewhere instead of stating something: "Figure 3", "表 2", "第 4 章"
+const REFERENCE_BEFORE = /(?:fig(?:ure)?\.?|table|tab\.|section|sec\.|eq\.|图|表|第)\s*$/i;
+const QUOTED_REGEX = /[“"「『]([^”"」』]{2,60})[”"」』]/g;
+const BOLD_REGEX = /\*\*(.+?)\*\*/g;
+// CJK text and full-width punctuation, which split a mixed term into its Latin runs
+const CJK_REGEX = /[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uff00-\uffef]+/;
+const EXCERPT_RADIUS = 60;
+
+const numericCore = (text: string) => text.replace(/[^\d.]/g, '').replace(/\.$/, '');
+
+// Single digits and years carry no claim worth checking unless they have a unit.
+const isTrivialNumber = (text: string) => {
+  if (/[%×倍a-zA-Z]/.test(text)) return false;
+  const value = Number(numericCore(text));
+  return (Number.isInteger(value) && value < 10) || (/^\d{4}$/.test(numericCore(text)) && value >= 1900 && value <= 2100);
+};
+
+// "87.5% top-1" is a metric, checked as a number; "GPT-4" is a name.
+const containsMetric = (text: string) => Array.from(text.matchAll(NUMBER_REGEX)).some(m => !isTrivialNumber(m[0].trim()));
+
+const blockText = (block: ArticleBlock) =>
+  block.type === 'paragraph' || block.type === 'highlight' || block.type === 'quote' ? block.text : '';
+
+/** Every number and quoted or bold English term in the article's prose, once per block. */
+export const extractClaims = (doc: ArticleDocument): Omit<ClaimCheck, 'page' | 'excerpt'>[] =>
+  doc.blocks.flatMap(block => {
+    const text = blockText(block);
+    const found = new Map<string, ClaimKind>();
+    for (const match of text.matchAll(NUMBER_REGEX)) {
+      const value = match[0].trim();
+      if (isTrivialNumber(value) || REFERENCE_BEFORE.test(text.slice(Math.max(0, match.index! - 12), match.index))) continue;
+      found.set(value, 'number');
+    }
+    for (const regex of [QUOTED_REGEX, BOLD_REGEX]) {
+      for (const match of text.matchAll(regex)) {
+        // Chinese wording is the article's own translation; only the English runs can be in
+        // the paper, so "Transformer 架构" is checked as "Transformer"
+        for (const run of match[1].replace(/\*\*/g, '').split(CJK_REGEX)) {
+          const term = run.trim();
+          if (/[A-Za-z]{2,}/.test(term) && !found.has(term) && !containsMetric(term)) found.set(term, 'term');
+        }
+      }
+    }
+    return Array.from(found, ([claim, kind]) => ({ blockId: block.id, text: claim, kind }));
+  });
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "1,234.5" and "1234.5" read the same; so do the minus signs.
+const normalizeNumbers = (text: string) => text.replace(/(\d),(?=\d{3}\b)/g, '$1').replace(/−/g, '-');
+
+// Case, spacing, hyphens and line-break hyphenation do not matter for terms.
+const normalizeTerm = (text: string) => text.toLowerCase().replace(/-\s*\n\s*/g, '').replace(/[\s\-‐–]+/g, '');
+
+const excerptAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+// The patterns a number may appear as: itself (trailing zeros allowed) and, for a
+// percentage, the same value as a fraction (87.5% -> 0.875).
+const numberPatterns = (text: string) => {
+  const core = numericCore(text);
+  const patterns = [new RegExp(`(?<![\\d.])${escapeRegex(core)}${core.includes('.') ? '0*' : ''}(?![\\d])`)];
+  if (text.includes('%')) {
+    const fraction = String(Number((Number(core) / 100).toFixed(6)));
+    if (fraction.includes('.')) patterns.push(new RegExp(`(?<![\\d.])${escapeRegex(fraction)}0*(?![\\d])`));
+  }
+  return patterns;
+};
+
+/**
+ * Looks every claim up in the page texts and reports the first page that
+ * contains it, with a short excerpt.
+ */
+export const verifyDocument = (doc: ArticleDocument, pages: PdfPageText[]): VerificationReport => {
+  const indexed = pages
+    .filter(p => p.text.trim())
+    .map(p => ({ page: p.page, numbers: normalizeNumbers(p.text), terms: normalizeTerm(p.text), text: p.text }));
+
+  const checks = extractClaims(doc).map((claim): ClaimCheck => {
+    for (const page of indexed) {
+      if (claim.kind === 'number') {
+        for (const pattern of numberPatterns(claim.text)) {
+          const match = pattern.exec(page.numbers);
+          if (match) return { ...claim, page: page.page, excerpt: excerptAround(page.numbers, match.index, match[0].length) };
+        }
+      } else if (page.terms.includes(normalizeTerm(claim.text))) {
+        const at = page.text.toLowerCase().indexOf(claim.text.toLowerCase());
+        return { ...claim, page: page.page, excerpt: at >= 0 ? excerptAround(page.text, at, claim.text.length) : undefined };
+      }
+    }
+    return { ...claim, page: null };
+  });
+
+  return { checkedAt: Date.now(), pagesWithText: indexed.length, checks };
+};
+
+// The checks still meaningful for a block: edits may have removed a value since.
+export const checksForBlock = (report: VerificationReport, block: ArticleBlock) => {
+  const text = blockText(block);
+  return report.checks.filter(c => c.blockId === block.id && text.includes(c.text));
+};
+
+export const verificationReportMarkdown = (report: VerificationReport, doc: ArticleDocument) => {
+  // Only claims still in the article, as in the preview
+  const checks = doc.blocks.flatMap(block => checksForBlock(report, block));
+  const unsupported = checks.filter(c => c.page === null);
+  const lines = [
+    `# Verification report: ${doc.title}`,
+    '',
+    `Checked ${new Date(report.checkedAt).toLocaleString()} against ${report.pagesWithText} page(s) of PDF text.`,
+    `${checks.length} claim(s): ${checks.length - unsupported.length} found in the paper, ${unsupported.length} not found.`,
+    ''
+  ];
+  const quote = (check: ClaimCheck) => {
+    const block = doc.blocks.find(b => b.id === check.blockId);
+    return block ? blockText(block).replace(/\*\*/g, '').slice(0, 120) : '';
+  };
+  if (unsupported.length) {
+    lines.push('## Not found in the paper', '', ...unsupported.map(c => `- **${c.text}** (${c.kind}) — “${quote(c)}”`), '');
+  }
+  const supported = checks.filter(c => c.page !== null);
+  if (supported.length) {
+    lines.push('## Found', '', ...supported.map(c => `- **${c.text}** — p. ${c.page}${c.excerpt ? `: ${c.excerpt}` : ''}`), '');
+  }
+  return lines.join('\n');
+};
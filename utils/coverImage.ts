@@ -0,0 +1,227 @@
+import { CoverAspect } from '../types';
+import { ImageSettings, blobToDataUrl, encodeImage } from './imageProcessing';
+
+// Width / height of each cover format, as WeChat displays them.
+export const COVER_RATIOS: Record<CoverAspect, number> = {
+  headline: 2.35,
+  square: 1
+};
+
+export const COVER_ASPECT_LABELS: Record<CoverAspect, string> = {
+  headline: 'Headline 2.35:1',
+  square: 'Share 1:1'
+};
+
+// Our series title, drawn onto the picked cover; the model is told to produce no text.
+export interface CoverOverlay {
+  enabled: boolean;
+  text: string; // e.g. "学术速递"
+  position: 'top' | 'center' | 'bottom';
+}
+
+export const DEFAULT_COVER_OVERLAY: CoverOverlay = { enabled: false, text: '', position: 'bottom' };
+
+const STORAGE_KEY = 'wechat-scholar.coverOverlay';
+
+export const loadCoverOverlay = (): CoverOverlay => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return { ...DEFAULT_COVER_OVERLAY, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring unreadable cover overlay settings", e);
+  }
+  return DEFAULT_COVER_OVERLAY;
+};
+
+export const saveCoverOverlay = (overlay: CoverOverlay) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overlay));
+};
+
+// Loaded through <img> rather than createImageBitmap so SVG covers (mock provider) work too.
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the cover image"));
+    img.src = src;
+  });
+
+// Sets the largest bold font, up to `size`, at which every line fits in `maxWidth`.
+const fitFont = (ctx: OffscreenCanvasRenderingContext2D, lines: string[], maxWidth: number, size: number, fontFamily: string) => {
+  let fontSize = size;
+  const setFont = () => { ctx.font = `bold ${fontSize}px ${fontFamily}`; };
+  setFont();
+  while (lines.some(line => ctx.measureText(line).width > maxWidth) && fontSize > 12) {
+    fontSize = Math.floor(fontSize * 0.9);
+    setFont();
+  }
+  return fontSize;
+};
+
+/**
+ * Draws the overlay text across the cover on a dark band, so it stays legible on
+ * any picture, and re-encodes the result per the image settings.
+ */
+export const drawTitleOverlay = async (src: string, overlay: CoverOverlay, fontFamily: string, settings: ImageSettings): Promise<string> => {
+  const img = await loadImage(src);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not available");
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const text = overlay.text.trim();
+  const fontSize = fitFont(ctx, [text], width * 0.9, Math.round(Math.min(height * 0.14, width * 0.08)), fontFamily);
+
+  const band = fontSize * 2.2;
+  const y = overlay.position === 'top' ? 0 : overlay.position === 'center' ? (height - band) / 2 : height - band;
+  if (overlay.position === 'center') {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+  } else {
+    // Fades out towards the middle of the picture
+    const gradient = ctx.createLinearGradient(0, y, 0, y + band);
+    const [inner, outer] = ['rgba(0, 0, 0, 0)', 'rgba(0, 0, 0, 0.6)'];
+    gradient.addColorStop(0, overlay.position === 'top' ? outer : inner);
+    gradient.addColorStop(1, overlay.position === 'top' ? inner : outer);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(0, y, width, band);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = fontSize * 0.15;
+  ctx.fillText(text, width / 2, y + band / 2);
+
+  const { blob } = await encodeImage(canvas, { x0: 0, y0: 0, x1: width, y1: height }, { ...settings, trimMargins: false });
+  return blobToDataUrl(blob);
+};
+
+// Covers built from the paper's own figures, for when AI art fails or is not wanted.
+// 'framed': the first figure on a blurred copy of itself; 'mosaic': up to four side by side.
+export type FigureCoverLayout = 'framed' | 'mosaic';
+
+export const FIGURE_COVER_LAYOUTS: Record<FigureCoverLayout, string> = {
+  framed: 'Framed',
+  mosaic: 'Mosaic'
+};
+
+const COMPOSED_WIDTH = 2160; // scaled down to the max width on encoding
+export const MOSAIC_MAX = 4;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+// Draws the image scaled to fit inside the box ('contain') or to fill it, cropped ('cover').
+const drawFitted = (ctx: OffscreenCanvasRenderingContext2D, img: HTMLImageElement, box: Box, mode: 'contain' | 'cover') => {
+  const fit = mode === 'contain' ? Math.min : Math.max;
+  const scale = fit(box.width / img.naturalWidth, box.height / img.naturalHeight);
+  const width = img.naturalWidth * scale;
+  const height = img.naturalHeight * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  ctx.drawImage(img, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+  ctx.restore();
+};
+
+// A figure on white card stock with a soft shadow, so it reads on any background.
+const drawCard = (ctx: OffscreenCanvasRenderingContext2D, img: HTMLImageElement, box: Box, padding: number) => {
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+  ctx.shadowBlur = padding * 2;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+  ctx.restore();
+  drawFitted(ctx, img, { x: box.x + padding, y: box.y + padding, width: box.width - padding * 2, height: box.height - padding * 2 }, 'contain');
+};
+
+// Splits the title into at most two lines of roughly equal width: at a space for
+// English, anywhere for Chinese.
+const splitTitle = (ctx: OffscreenCanvasRenderingContext2D, title: string, maxWidth: number): string[] => {
+  if (ctx.measureText(title).width <= maxWidth) return [title];
+  const words = title.includes(' ') ? title.split(' ') : Array.from(title);
+  const joiner = title.includes(' ') ? ' ' : '';
+  let best = 1;
+  for (let i = 1; i < words.length; i++) {
+    const diff = (n: number) => Math.abs(ctx.measureText(words.slice(0, n).join(joiner)).width - ctx.measureText(words.slice(n).join(joiner)).width);
+    if (diff(i) < diff(best)) best = i;
+  }
+  return [words.slice(0, best).join(joiner), words.slice(best).join(joiner)];
+};
+
+/**
+ * Renders a cover in the given format from figure images (data:, blob: or http
+ * URLs) with the title on a band of `bandColor`, encoded per the image settings.
+ */
+export const composeFigureCover = async (
+  figures: string[],
+  layout: FigureCoverLayout,
+  aspect: CoverAspect,
+  title: string,
+  bandColor: string,
+  fontFamily: string,
+  settings: ImageSettings
+): Promise<string> => {
+  if (figures.length === 0) throw new Error("Pick at least one figure for the cover");
+  const images = await Promise.all((layout === 'framed' ? figures.slice(0, 1) : figures.slice(0, MOSAIC_MAX)).map(loadImage));
+  const width = COMPOSED_WIDTH;
+  const height = Math.round(width / COVER_RATIOS[aspect]);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not available");
+
+  // Title band along the bottom; the figures get the rest
+  const text = title.trim();
+  const band = text ? Math.round(height * (aspect === 'square' ? 0.24 : 0.28)) : 0;
+  const area: Box = { x: 0, y: 0, width, height: height - band };
+  const gap = Math.round(height * 0.05);
+
+  if (layout === 'framed') {
+    ctx.filter = `blur(${Math.round(width / 60)}px)`;
+    drawFitted(ctx, images[0], { x: -gap, y: -gap, width: width + gap * 2, height: height + gap * 2 }, 'cover');
+    ctx.filter = 'none';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.fillRect(0, 0, width, height);
+    // The card hugs the figure's own shape within the area
+    const maxWidth = area.width - gap * 4;
+    const maxHeight = area.height - gap * 2;
+    const scale = Math.min(maxWidth / images[0].naturalWidth, maxHeight / images[0].naturalHeight);
+    const padding = Math.round(gap * 0.3);
+    const cardWidth = images[0].naturalWidth * scale + padding * 2;
+    const cardHeight = images[0].naturalHeight * scale + padding * 2;
+    drawCard(ctx, images[0], { x: (width - cardWidth) / 2, y: (area.height - cardHeight) / 2, width: cardWidth, height: cardHeight }, padding);
+  } else {
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillRect(0, 0, width, height);
+    // One row on the wide cover, a 2x2 grid on the square one once there are more than two
+    const columns = aspect === 'square' && images.length > 2 ? 2 : images.length;
+    const rows = Math.ceil(images.length / columns);
+    const cellWidth = (area.width - gap * (columns + 1)) / columns;
+    const cellHeight = (area.height - gap * (rows + 1)) / rows;
+    images.forEach((img, i) => {
+      const x = gap + (i % columns) * (cellWidth + gap);
+      const y = gap + Math.floor(i / columns) * (cellHeight + gap);
+      drawCard(ctx, img, { x, y, width: cellWidth, height: cellHeight }, Math.round(gap * 0.3));
+    });
+  }
+
+  if (band) {
+    ctx.fillStyle = bandColor;
+    ctx.fillRect(0, height - band, width, band);
+    ctx.font = `bold ${Math.round(band * 0.3)}px ${fontFamily}`;
+    const lines = splitTitle(ctx, text, width * 0.9);
+    const fontSize = fitFont(ctx, lines, width * 0.9, Math.round(band * (lines.length > 1 ? 0.3 : 0.4)), fontFamily);
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lineHeight = fontSize * 1.25;
+    const top = height - band / 2 - (lineHeight * (lines.length - 1)) / 2;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, top + i * lineHeight));
+  }
+
+  const { blob } = await encodeImage(canvas, { x0: 0, y0: 0, x1: width, y1: height }, { ...settings, trimMargins: false });
+  return blobToDataUrl(blob);
+};
@@ -0,0 +1,34 @@
+// Undo/redo stacks around an immutable value.
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// Records a new state; a no-op change (same reference) is not an undo step.
+export const pushHistory = <T>(history: History<T>, next: T): History<T> =>
+  next === history.present
+    ? history
+    : { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
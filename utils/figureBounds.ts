@@ -0,0 +1,215 @@
+// Geometry for locating figures on a rendered PDF page.
+// All coordinates are viewport pixels (y grows downwards), as produced by pdfUtils.
+
+export interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface TextSegment extends Rect {
+  text: string;
+}
+
+export interface Column {
+  x0: number;
+  x1: number;
+}
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  columns: Column[];
+  segments: TextSegment[];
+  graphics: Rect[]; // painted images and vector paths
+}
+
+export interface FigureBounds {
+  rect: Rect;
+  confidence: number; // 0-1, how sure we are the crop is the whole figure and nothing else
+}
+
+// Pixel thresholds, tuned for pages rendered at scale 2
+const SEED_GAP = 80; // max distance between a caption and the figure it belongs to
+const JOIN_GAP = 24; // parts of one figure (panels, axis labels) are at most this far apart
+const CELL_GAP = 200; // horizontal space allowed between neighbouring table cells
+const TOLERANCE = 4;
+const PADDING = 8;
+
+const width = (r: Rect) => r.x1 - r.x0;
+const height = (r: Rect) => r.y1 - r.y0;
+
+const union = (a: Rect, b: Rect): Rect => ({
+  x0: Math.min(a.x0, b.x0),
+  y0: Math.min(a.y0, b.y0),
+  x1: Math.max(a.x1, b.x1),
+  y1: Math.max(a.y1, b.y1)
+});
+
+const intersects = (a: Rect, b: Rect) => a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
+
+const gaps = (a: Rect, b: Rect) => ({
+  dx: Math.max(0, a.x0 - b.x1, b.x0 - a.x1),
+  dy: Math.max(0, a.y0 - b.y1, b.y0 - a.y1)
+});
+
+// Gap between two rectangles; 0 when they touch or overlap
+const distance = (a: Rect, b: Rect) => {
+  const { dx, dy } = gaps(a, b);
+  return Math.max(dx, dy);
+};
+
+const withinColumn = (r: Rect, column: Column) => {
+  const overlap = Math.min(r.x1, column.x1) - Math.max(r.x0, column.x0);
+  // Zero-width strokes (vertical rules) count when they sit inside the column
+  return width(r) > 0 ? overlap > width(r) / 2 : r.x0 >= column.x0 && r.x0 <= column.x1;
+};
+
+/**
+ * Finds a vertical gutter near the middle of the page that almost no text
+ * crosses. Returns one column for single-column pages, two otherwise.
+ */
+export const detectColumns = (segments: TextSegment[], pageWidth: number): Column[] => {
+  const single = [{ x0: 0, x1: pageWidth }];
+  if (segments.length < 10) return single;
+
+  let best = { x: 0, crossing: Infinity };
+  for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += 2) {
+    const crossing = segments.filter(s => s.x0 < x && s.x1 > x).length;
+    if (crossing < best.crossing) best = { x, crossing };
+  }
+
+  const left = segments.filter(s => s.x1 <= best.x).length;
+  const right = segments.filter(s => s.x0 >= best.x).length;
+  const balanced = Math.min(left, right) >= Math.max(5, segments.length * 0.2);
+  if (best.crossing > segments.length * 0.1 || !balanced) return single;
+
+  return [{ x0: 0, x1: best.x }, { x0: best.x, x1: pageWidth }];
+};
+
+// A caption inside one column belongs to that column; one crossing the gutter spans the page.
+const regionFor = (caption: Rect, layout: PageLayout): Column => {
+  const column = layout.columns.find(c => caption.x0 >= c.x0 - TOLERANCE && caption.x1 <= c.x1 + TOLERANCE);
+  return column ?? { x0: 0, x1: layout.width };
+};
+
+// Starting from the candidate nearest the caption, pull in everything within JOIN_GAP
+// (or `maxDx` sideways, for table cells on the same row).
+const growCluster = (seed: Rect, candidates: Rect[], maxDx = JOIN_GAP) => {
+  let bounds = seed;
+  let pending = candidates.filter(c => c !== seed);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    const remaining: Rect[] = [];
+    for (const c of pending) {
+      const { dx, dy } = gaps(bounds, c);
+      if (dx <= maxDx && dy <= JOIN_GAP) {
+        bounds = union(bounds, c);
+        grew = true;
+      } else {
+        remaining.push(c);
+      }
+    }
+    pending = remaining;
+  }
+  return bounds;
+};
+
+const pad = (r: Rect, layout: PageLayout): Rect => ({
+  x0: Math.max(0, r.x0 - PADDING),
+  y0: Math.max(0, r.y0 - PADDING),
+  x1: Math.min(layout.width, r.x1 + PADDING),
+  y1: Math.min(layout.height, r.y1 + PADDING)
+});
+
+export type CaptionKind = 'figure' | 'table';
+
+/**
+ * Locates the figure a caption belongs to: the cluster of images and vector
+ * paths directly above the caption, else below it, else beside it, widened
+ * to take in axis labels. Body text lines act as walls. Without any graphics
+ * it falls back to the gap between the caption and the text above it.
+ *
+ * Tables are looked for below their caption first, and their cell text counts
+ * as part of the cluster, so tables without rules are found too.
+ */
+export const findFigureBounds = (caption: TextSegment, layout: PageLayout, kind: CaptionKind = 'figure'): FigureBounds => {
+  const region = regionFor(caption, layout);
+  const regionWidth = region.x1 - region.x0;
+  const graphics = layout.graphics.filter(g => withinColumn(g, region));
+  const segments = layout.segments.filter(s => s !== caption && withinColumn(s, region));
+  // Paragraph lines are wide for their column and never drawn over; short text may be a figure label
+  const columnWidth = (s: TextSegment) => {
+    const column = layout.columns.find(c => withinColumn(s, c)) ?? region;
+    return column.x1 - column.x0;
+  };
+  const isBody = (s: TextSegment) => width(s) > columnWidth(s) * 0.5 && !graphics.some(g => intersects(g, s));
+  const body = segments.filter(isBody);
+  const labels = segments.filter(s => !isBody(s));
+
+  // Walls: the nearest body line above the caption, and the first one below the caption's own lines
+  const top = Math.max(0, ...body.filter(s => s.y1 <= caption.y0 + TOLERANCE).map(s => s.y1));
+  let captionEnd = caption.y1;
+  for (const line of [...body].sort((a, b) => a.y0 - b.y0)) {
+    if (line.y0 < captionEnd - TOLERANCE) continue;
+    if (line.y0 - captionEnd > height(caption)) break;
+    captionEnd = line.y1; // a wrapped caption continues on the next line
+  }
+  const bottom = Math.min(layout.height, ...body.filter(s => s.y0 >= captionEnd).map(s => s.y0));
+
+  type Limits = { y0: number; y1: number };
+  const inLimits = (r: Rect, limits: Limits) => r.y0 >= limits.y0 - TOLERANCE && r.y1 <= limits.y1 + TOLERANCE;
+  const search = (candidates: Rect[], gapTo: (r: Rect) => number, limits: Limits) => {
+    const nearest = [...candidates].sort((a, b) => gapTo(a) - gapTo(b))[0];
+    if (!nearest || gapTo(nearest) > SEED_GAP) return null;
+    const maxDx = kind === 'table' ? CELL_GAP : JOIN_GAP;
+    const bounds = growCluster(nearest, candidates, maxDx);
+    return growCluster(bounds, labels.filter(s => inLimits(s, limits)), maxDx);
+  };
+  const seedsIn = (limits: Limits) =>
+    (kind === 'table' ? [...graphics, ...labels] : graphics).filter(r => inLimits(r, limits));
+
+  const aboveLimits = { y0: top, y1: caption.y0 };
+  const belowLimits = { y0: captionEnd, y1: bottom };
+  const above = search(seedsIn(aboveLimits), r => caption.y0 - r.y1, aboveLimits);
+  const below = search(seedsIn(belowLimits), r => r.y0 - captionEnd, belowLimits);
+
+  // Figure captions usually sit below the figure, table captions above the table
+  const [preferred, other] = kind === 'table' ? [below, above] : [above, below];
+  let found = preferred ?? other;
+  let confidence = preferred ? (other ? 0.75 : 0.9) : 0.8;
+
+  if (!found && layout.columns.length === 1) {
+    // Side captions: graphics level with the caption, left or right of it
+    const beside = layout.graphics.filter(g => g.y0 <= caption.y1 && g.y1 >= caption.y0 && !intersects(g, caption));
+    found = search(beside, g => Math.max(g.x0 - caption.x1, caption.x0 - g.x1), { y0: 0, y1: layout.height });
+    confidence = 0.6;
+  }
+
+  if (found) {
+    const bounds = found;
+    // A lone rule or a small logo is unlikely to be the whole figure
+    if (width(bounds) * height(bounds) < regionWidth * regionWidth * 0.05) confidence *= 0.5;
+    // Tables found from text alone have no rules to confirm their extent
+    if (kind === 'table' && !graphics.some(g => distance(g, bounds) === 0)) confidence *= 0.8;
+    return { rect: pad(bounds, layout), confidence };
+  }
+
+  if (kind === 'table') {
+    // No cells found: a fixed window under the caption
+    return { rect: { x0: region.x0, y0: captionEnd, x1: region.x1, y1: Math.min(bottom, captionEnd + 450) }, confidence: 0.15 };
+  }
+
+  // No graphics: everything between the nearest text above and the caption
+  const nearestText = Math.max(top, ...segments.filter(s => s.y1 <= caption.y0).map(s => s.y1));
+  let y0 = nearestText > 0 ? nearestText + 15 : Math.max(0, caption.y0 - 600);
+  confidence = 0.3;
+  if (caption.y0 - y0 < 100) {
+    // The gap is too small to be a figure; take a fixed window instead
+    y0 = Math.max(0, caption.y0 - 450);
+    confidence = 0.15;
+  }
+  return { rect: { x0: region.x0, y0, x1: region.x1, y1: caption.y0 }, confidence };
+};
@@ -0,0 +1,298 @@
+// Page analysis and cropping for figure extraction. Nothing here touches the DOM,
+// so it runs both on the main thread and inside figureExtraction.worker.ts.
+import * as pdfjsLib from 'pdfjs-dist';
+import type { RenderParameters, TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { CaptionKind, PageLayout, Rect, TextSegment, detectColumns, findFigureBounds } from './figureBounds';
+import { ImageSettings, encodeImage } from './imageProcessing';
+import { reconstructTable } from './tableGrid';
+
+// Pages are analysed and cropped at this scale (2 = 144 dpi).
+export const RENDER_SCALE = 2;
+
+/** A figure cut out of one page; the caller gives it an id and an object URL. */
+export interface PageFigure {
+  label: string; // e.g. "Figure 1" or "Table 2"
+  page: number;
+  blob: Blob; // encoded per the image settings
+  confidence: number;
+  rows?: string[][];
+  bounds: Rect;
+}
+
+// Messages between extractImagesFromPdf and the worker
+export type FigureWorkerRequest = { type: 'extract'; data: ArrayBuffer; settings: ImageSettings };
+export type FigureWorkerResponse =
+  | { type: 'progress'; page: number; numPages: number }
+  | { type: 'done'; figures: PageFigure[] }
+  | { type: 'error'; message: string }; // the PDF could not be opened
+
+const ROMAN_DIGITS: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+// IEEE-style papers number tables "TABLE IV"; everything else uses digits.
+export const captionNumber = (value: string) => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const digits = value.toUpperCase().split('').map(c => ROMAN_DIGITS[c]);
+  return digits.reduce((sum, d, i) => sum + (d < (digits[i + 1] ?? 0) ? -d : d), 0);
+};
+
+// Regex allows for "Fig 1", "Figure. 1", "Fig. 1", "Figure 1", "Table 2", "TABLE IV"
+const CAPTION_REGEX = /^(Figure|Fig|Table)[\.\s]+(\d+|[IVX]+\b)/i;
+
+interface TextItemPosition {
+  str: string;
+  x: number;
+  y: number; // Viewport Y (top)
+  bottom: number; // Viewport Y (bottom/baseline)
+  width: number;
+  height: number;
+  right: number;
+}
+
+// Operators that paint an image into the unit square of the current transform
+const IMAGE_OPS = new Set<number>([
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintInlineImageXObject,
+  pdfjsLib.OPS.paintImageMaskXObject,
+  pdfjsLib.OPS.paintSolidColorImageMask
+]);
+
+const PATH_PAINT_OPS = new Set<number>([
+  pdfjsLib.OPS.stroke,
+  pdfjsLib.OPS.closeStroke,
+  pdfjsLib.OPS.fill,
+  pdfjsLib.OPS.eoFill,
+  pdfjsLib.OPS.fillStroke,
+  pdfjsLib.OPS.eoFillStroke,
+  pdfjsLib.OPS.closeFillStroke,
+  pdfjsLib.OPS.closeEOFillStroke
+]);
+
+// Bounding boxes (viewport pixels) of every image and painted vector path on the page.
+const collectGraphics = async (page: pdfjsLib.PDFPageProxy, viewport: pdfjsLib.PageViewport): Promise<Rect[]> => {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const { OPS, Util } = pdfjsLib;
+  const graphics: Rect[] = [];
+  const stack: number[][] = [];
+  let ctm: number[] = [1, 0, 0, 1, 0, 0];
+  let path: number[] | null = null; // [x0, y0, x1, y1] in user space, waiting for a paint op
+
+  const add = (box: number[]) => {
+    const [x0, y0, x1, y1] = Util.getAxialAlignedBoundingBox(box, Util.transform(viewport.transform, ctm));
+    const w = x1 - x0;
+    const h = y1 - y0;
+    if (Math.max(w, h) < 8) return; // bullets, dots
+    if (w * h > viewport.width * viewport.height * 0.8) return; // page backgrounds, scanned pages
+    graphics.push({ x0, y0, x1, y1 });
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = Util.transform(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args[0]) && args[0].length === 6) ctm = Util.transform(ctm, args[0]);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (IMAGE_OPS.has(fn)) {
+      add([0, 0, 1, 1]);
+    } else if (fn === OPS.constructPath) {
+      const [minX, maxX, minY, maxY] = args[2];
+      path = Number.isFinite(minX) && Number.isFinite(minY) ? [minX, minY, maxX, maxY] : null;
+    } else if (PATH_PAINT_OPS.has(fn)) {
+      if (path) add(path);
+      path = null;
+    } else if (fn === OPS.endPath) {
+      path = null; // clipping path, never painted
+    }
+  }
+
+  return graphics;
+};
+
+const newCanvas = (width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not available");
+  // White background
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return { canvas, ctx };
+};
+
+// Renders a page at RENDER_SCALE on a white background.
+export const renderPage = async (page: pdfjsLib.PDFPageProxy): Promise<OffscreenCanvas> => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const { canvas, ctx } = newCanvas(viewport.width, viewport.height);
+  // pdf.js draws into an OffscreenCanvas context just the same; its types only name the DOM one
+  const params: RenderParameters = { canvasContext: ctx as unknown as CanvasRenderingContext2D, viewport };
+  await page.render(params).promise;
+  return canvas;
+};
+
+/**
+ * Cuts `rect` out of a rendered page, trimmed and compressed per `settings`.
+ * `bounds` is the rectangle actually kept; null for an empty rectangle.
+ */
+export const cropRegion = async (page: OffscreenCanvas, rect: Rect, settings: ImageSettings): Promise<{ blob: Blob; bounds: Rect } | null> => {
+  if (Math.round(rect.x1 - rect.x0) <= 0 || Math.round(rect.y1 - rect.y0) <= 0) return null;
+  const { blob, rect: bounds } = await encodeImage(page, rect, settings);
+  return { blob, bounds };
+};
+
+// Text runs only; marked-content entries carry no text.
+export const textItems = (textContent: TextContent) => textContent.items.filter((item): item is TextItem => 'str' in item);
+
+// Text lines of a page, split at wide gaps so columns and table cells stay apart.
+const pageSegments = async (page: pdfjsLib.PDFPageProxy, viewport: pdfjsLib.PageViewport): Promise<TextSegment[]> => {
+  const textContent = await page.getTextContent();
+
+  // 1. Map items to Viewport
+  const items: TextItemPosition[] = textItems(textContent)
+    .map(item => {
+       // Use viewport conversion method which is robust against transforms/rotation
+       // item.transform[4] is x, item.transform[5] is y in PDF space
+       const [vx, vy] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+
+       // item.width/height are in PDF space. Scale them.
+       const w = item.width * viewport.scale;
+       // item.height in textContent is roughly font size
+       const h = Math.abs(item.height * viewport.scale) || 10;
+
+       // vy is usually the baseline in viewport coordinates.
+       // To get "top", we subtract height.
+
+       return {
+         str: item.str,
+         x: vx,
+         y: vy - h, // Top
+         bottom: vy, // Baseline/Bottom
+         width: w,
+         height: h,
+         right: vx + w
+       };
+    })
+    // Filter out empty or whitespace-only items to avoid noise
+    .filter(i => i.str.trim().length > 0);
+
+  // 2. Group into line segments: same baseline, split at wide gaps so columns stay apart
+  // Sort by Y first
+  items.sort((a, b) => {
+    const yDiff = Math.abs(a.bottom - b.bottom);
+    if (yDiff < 8) { // Tolerance for same line
+       return a.x - b.x;
+    }
+    return a.bottom - b.bottom;
+  });
+
+  const segments: TextSegment[] = [];
+  let currentLine: TextItemPosition[] = [];
+
+  items.forEach((item) => {
+    if (currentLine.length === 0) {
+      currentLine.push(item);
+    } else {
+      const last = currentLine[currentLine.length - 1];
+      // Check line proximity (vertical), then the horizontal gap (column gutter, table cell)
+      if (Math.abs(item.bottom - last.bottom) < 8 && item.x - last.right < Math.max(12, last.height)) {
+         currentLine.push(item);
+      } else {
+         segments.push(mergeLine(currentLine));
+         currentLine = [item];
+      }
+    }
+  });
+  if (currentLine.length > 0) segments.push(mergeLine(currentLine));
+  return segments;
+};
+
+/**
+ * Finds the captions on one page and crops the figure or table each one
+ * belongs to. The page is only rendered when it has a caption.
+ */
+export const extractPageFigures = async (page: pdfjsLib.PDFPageProxy, settings: ImageSettings): Promise<PageFigure[]> => {
+  const pageNum = page.pageNumber;
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const segments = await pageSegments(page, viewport);
+
+  // 3. Detect Captions
+  const captionLines = segments.filter(l => CAPTION_REGEX.test(l.text));
+
+  if (captionLines.length === 0) return [];
+
+  const layout: PageLayout = {
+    width: viewport.width,
+    height: viewport.height,
+    columns: detectColumns(segments, viewport.width),
+    segments,
+    graphics: await collectGraphics(page, viewport)
+  };
+
+  // 4. Render Page
+  const canvas = await renderPage(page);
+  const figures: PageFigure[] = [];
+
+  // 5. Crop
+  for (const caption of captionLines) {
+    const match = caption.text.match(CAPTION_REGEX);
+    if (!match) continue;
+    const kind: CaptionKind = match[1].toLowerCase() === 'table' ? 'table' : 'figure';
+    const label = `${kind === 'table' ? 'Table' : 'Figure'} ${captionNumber(match[2])}`; // Standardize to "Figure X" / "Table X"
+
+    const { rect, confidence } = findFigureBounds(caption, layout, kind);
+    const crop = await cropRegion(canvas, rect, settings);
+
+    if (crop) {
+       const rows = kind === 'table' ? reconstructTable(rect, segments.filter(s => s !== caption)) : [];
+
+       figures.push({
+           label: label,
+           page: pageNum,
+           blob: crop.blob,
+           confidence,
+           rows: rows.length ? rows : undefined,
+           bounds: crop.bounds
+       });
+    }
+  }
+
+  // Let the page's bitmap go before the next one is rendered
+  canvas.width = 0;
+  canvas.height = 0;
+  return figures;
+};
+
+// Helper: Merges text items into a single line string, fixing fragmented words
+function mergeLine(items: TextItemPosition[]): TextSegment {
+  // Sort by X
+  items.sort((a,b) => a.x - b.x);
+
+  let text = items[0].str;
+  for (let i = 1; i < items.length; i++) {
+    const prev = items[i-1];
+    const curr = items[i];
+
+    // Gap check: logic to decide if there is a space
+    // If the gap between end of prev and start of curr is "significant", add space.
+    // Otherwise assume it is part of the same word (e.g. "F" "i" "g").
+    const gap = curr.x - prev.right;
+
+    // 5px threshold at scale 2.0 (approx 2.5px in PDF units)
+    if (gap > 5) {
+        text += " ";
+    }
+    text += curr.str;
+  }
+
+  const y0 = Math.min(...items.map(i => i.y));
+  const y1 = Math.max(...items.map(i => i.bottom));
+  const x0 = items[0].x;
+  const x1 = Math.max(...items.map(i => i.right));
+
+  return { text, x0, y0, x1, y1 };
+}
@@ -0,0 +1,56 @@
+// Runs extractPageFigures off the main thread. Started by extractImagesFromPdf,
+// one worker per PDF; cancelling terminates it.
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { FigureWorkerRequest, FigureWorkerResponse, PageFigure, extractPageFigures } from './figureExtraction';
+
+// pdf.js cannot derive its own worker without a window, so hand it a port explicitly
+pdfjsLib.GlobalWorkerOptions.workerPort = new Worker(pdfWorkerUrl, { type: 'module' });
+
+// Scratch canvases for masks and patterns; the default factory needs a document
+const offscreenCanvasFactory = {
+  create: (width: number, height: number) => {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset: (entry: { canvas: OffscreenCanvas }, width: number, height: number) => {
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  },
+  destroy: (entry: { canvas: OffscreenCanvas | null; context: unknown }) => {
+    if (entry.canvas) entry.canvas.width = entry.canvas.height = 0;
+    entry.canvas = null;
+    entry.context = null;
+  }
+};
+
+const scope = self as unknown as Worker; // DedicatedWorkerGlobalScope, as far as messaging goes
+const post = (message: FigureWorkerResponse) => scope.postMessage(message);
+
+scope.onmessage = async (e: MessageEvent<FigureWorkerRequest>) => {
+  let pdf: pdfjsLib.PDFDocumentProxy;
+  try {
+    pdf = await pdfjsLib.getDocument({
+      data: e.data.data,
+      canvasFactory: offscreenCanvasFactory,
+      isOffscreenCanvasSupported: true,
+      disableFontFace: true // no document.fonts here; glyphs are drawn as paths
+    }).promise;
+  } catch (err) {
+    const message = (err as Error)?.name === 'PasswordException' ? "The PDF is password-protected." : "The PDF could not be read.";
+    return post({ type: 'error', message });
+  }
+
+  const figures: PageFigure[] = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    post({ type: 'progress', page: pageNum, numPages: pdf.numPages });
+    try {
+      figures.push(...await extractPageFigures(await pdf.getPage(pageNum), e.data.settings));
+    } catch (err) {
+      console.error(`Error processing page ${pageNum}`, err);
+    }
+  }
+
+  post({ type: 'done', figures });
+  pdf.destroy();
+};
@@ -0,0 +1,160 @@
+// Resizing, trimming and re-encoding of figures and covers before they go into an
+// article. DOM-free apart from the settings storage, so the extraction worker can use it.
+import { Rect } from './figureBounds';
+
+export type ImageFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+export interface ImageSettings {
+  maxWidth: number; // px; wider images are scaled down, 0 keeps the original width
+  format: ImageFormat;
+  quality: number; // 0-1, JPEG and WebP only
+  trimMargins: boolean; // cut away white borders around figures
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  maxWidth: 1080, // twice the width of the WeChat article column
+  format: 'image/jpeg',
+  quality: 0.85,
+  trimMargins: true
+};
+
+// WeChat limits: uploadimg takes JPEG/PNG up to 1 MB per article image, the cover
+// (permanent material) up to 10 MB; draft content (the HTML, images referenced by URL)
+// must stay under 1 MB.
+export const WECHAT_IMAGE_MAX_BYTES = 1024 * 1024;
+export const WECHAT_COVER_MAX_BYTES = 10 * 1024 * 1024;
+export const WECHAT_CONTENT_MAX_BYTES = 1024 * 1024;
+export const WECHAT_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+const STORAGE_KEY = 'wechat-scholar.images';
+
+export const loadImageSettings = (): ImageSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return { ...DEFAULT_IMAGE_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring unreadable image settings", e);
+  }
+  return DEFAULT_IMAGE_SETTINGS;
+};
+
+export const saveImageSettings = (settings: ImageSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const WHITE_THRESHOLD = 240; // channels above this count as paper
+const TRIM_PADDING = 6;
+const MIN_QUALITY = 0.5;
+const MAX_ATTEMPTS = 8;
+
+const newCanvas = (width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not available");
+  // White background, also what transparent pixels become in a JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return { canvas, ctx };
+};
+
+// The smallest box holding every non-white pixel, padded; null for a blank image.
+const contentBox = ({ data, width, height }: ImageData): Rect | null => {
+  let x0 = width, y0 = height, x1 = -1, y1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (Math.min(data[i], data[i + 1], data[i + 2]) >= WHITE_THRESHOLD) continue;
+      if (x < x0) x0 = x;
+      if (x > x1) x1 = x;
+      if (y < y0) y0 = y;
+      if (y > y1) y1 = y;
+    }
+  }
+  if (x1 < 0) return null;
+  return {
+    x0: Math.max(0, x0 - TRIM_PADDING),
+    y0: Math.max(0, y0 - TRIM_PADDING),
+    x1: Math.min(width, x1 + 1 + TRIM_PADDING),
+    y1: Math.min(height, y1 + 1 + TRIM_PADDING)
+  };
+};
+
+/**
+ * Encodes `rect` of `source` per the settings: trimmed, scaled to the max width
+ * and compressed. When the result is over `maxBytes` the quality is lowered,
+ * then the size, a few times; the last attempt is returned even if still too
+ * big. `rect` in the result is the part of the source that was kept.
+ */
+export const encodeImage = async (
+  source: CanvasImageSource,
+  rect: Rect,
+  settings: ImageSettings,
+  maxBytes = WECHAT_IMAGE_MAX_BYTES
+): Promise<{ blob: Blob; rect: Rect }> => {
+  const width = Math.round(rect.x1 - rect.x0);
+  const height = Math.round(rect.y1 - rect.y0);
+  const region = newCanvas(width, height);
+  region.ctx.drawImage(source, rect.x0, rect.y0, width, height, 0, 0, width, height);
+
+  const kept = (settings.trimMargins && contentBox(region.ctx.getImageData(0, 0, width, height))) || { x0: 0, y0: 0, x1: width, y1: height };
+  const keptWidth = kept.x1 - kept.x0;
+  const keptHeight = kept.y1 - kept.y0;
+  const lossy = settings.format !== 'image/png';
+
+  let scale = settings.maxWidth > 0 ? Math.min(1, settings.maxWidth / keptWidth) : 1;
+  let quality = settings.quality;
+  let blob: Blob | null = null;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const out = newCanvas(Math.max(1, Math.round(keptWidth * scale)), Math.max(1, Math.round(keptHeight * scale)));
+    out.ctx.imageSmoothingQuality = 'high';
+    out.ctx.drawImage(region.canvas, kept.x0, kept.y0, keptWidth, keptHeight, 0, 0, out.canvas.width, out.canvas.height);
+    blob = await out.canvas.convertToBlob({ type: settings.format, quality: lossy ? quality : undefined });
+    if (blob.size <= maxBytes) break;
+    // Over the limit: give up quality first, then pixels
+    if (lossy && quality > MIN_QUALITY) quality = Math.max(MIN_QUALITY, quality - 0.15);
+    else scale *= 0.8;
+  }
+
+  return {
+    blob: blob!,
+    rect: { x0: rect.x0 + kept.x0, y0: rect.y0 + kept.y0, x1: rect.x0 + kept.x1, y1: rect.y0 + kept.y1 }
+  };
+};
+
+// The largest rectangle of the given aspect ratio (width / height), centred.
+const centerCrop = (width: number, height: number, aspect: number): Rect => {
+  if (width / height > aspect) {
+    const cropWidth = height * aspect;
+    return { x0: (width - cropWidth) / 2, y0: 0, x1: (width + cropWidth) / 2, y1: height };
+  }
+  const cropHeight = width / aspect;
+  return { x0: 0, y0: (height - cropHeight) / 2, x1: width, y1: (height + cropHeight) / 2 };
+};
+
+/**
+ * Re-encodes an image given by URL (data:, blob: or http) and returns it as a
+ * data URL, centre-cropped to `aspect` (width / height) when given.
+ */
+export const processImageUrl = async (src: string, settings: ImageSettings, aspect?: number): Promise<string> => {
+  const source = await (await fetch(src)).blob();
+  if (source.type === 'image/svg+xml') return src; // createImageBitmap cannot decode SVG; it is small anyway
+  const bitmap = await createImageBitmap(source);
+  try {
+    const rect = aspect ? centerCrop(bitmap.width, bitmap.height, aspect) : { x0: 0, y0: 0, x1: bitmap.width, y1: bitmap.height };
+    const { blob } = await encodeImage(bitmap, rect, settings);
+    return blobToDataUrl(blob);
+  } finally {
+    bitmap.close();
+  }
+};
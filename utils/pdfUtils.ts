@@ -1,212 +1,139 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { PdfParseError } from '../services/errors';
+import { Rect, TextSegment } from './figureBounds';
+import { FigureWorkerRequest, FigureWorkerResponse, PageFigure, RENDER_SCALE, renderPage, textItems } from './figureExtraction';
+import { DEFAULT_IMAGE_SETTINGS, ImageSettings } from './imageProcessing';
 
-// Configure worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
+export { RENDER_SCALE, cropRegion } from './figureExtraction';
+
+// Configure worker (bundled, same version as the library)
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 export interface ExtractedImage {
   id: string;
-  label: string; // e.g. "Figure 1"
-  src: string;
+  label: string; // e.g. "Figure 1" or "Table 2"
+  src: string; // object URL of `blob`, or a data URL on older projects
+  blob?: Blob; // the image itself; object URLs do not survive a reload, so this is what gets saved
   page: number;
+  confidence?: number; // 0-1 for the crop bounds; absent on figures saved before bound detection
+  rows?: string[][]; // tables only: the cell grid read from the text, header row first
+  bounds?: Rect; // crop rectangle on the page rendered at RENDER_SCALE, for re-cropping
 }
 
-interface TextItemPosition {
-  str: string;
-  x: number;
-  y: number; // Viewport Y (top)
-  bottom: number; // Viewport Y (bottom/baseline)
-  width: number;
-  height: number;
-  right: number;
+export interface PdfPageText {
+  page: number;
+  text: string;
 }
 
-export const extractImagesFromPdf = async (file: File): Promise<ExtractedImage[]> => {
+const loadPdf = async (file: File) => {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const extractedFigures: ExtractedImage[] = [];
+  try {
+    return await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+  } catch (e) {
+    const reason = (e as Error)?.name === 'PasswordException' ? "The PDF is password-protected." : "The PDF could not be read.";
+    throw new PdfParseError(reason, { cause: e });
+  }
+};
 
-  console.log(`PDF Loaded: ${pdf.numPages} pages`);
+// Plain text per page, for models that cannot read the PDF itself.
+export const extractTextFromPdf = async (file: File): Promise<PdfPageText[]> => {
+  const pdf = await loadPdf(file);
+  const pages: PdfPageText[] = [];
 
   for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-    try {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      const viewport = page.getViewport({ scale: 2.0 });
-
-      // 1. Map items to Viewport
-      const items: TextItemPosition[] = textContent.items
-        .map((item: any) => {
-           // Use viewport conversion method which is robust against transforms/rotation
-           // item.transform[4] is x, item.transform[5] is y in PDF space
-           const [vx, vy] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
-           
-           // item.width/height are in PDF space. Scale them.
-           const w = item.width * viewport.scale;
-           // item.height in textContent is roughly font size
-           const h = Math.abs(item.height * viewport.scale) || 10;
-
-           // vy is usually the baseline in viewport coordinates.
-           // To get "top", we subtract height.
-           
-           return {
-             str: item.str,
-             x: vx,
-             y: vy - h, // Top
-             bottom: vy, // Baseline/Bottom
-             width: w,
-             height: h,
-             right: vx + w
-           };
-        })
-        // Filter out empty or whitespace-only items to avoid noise
-        .filter(i => i.str.trim().length > 0);
-
-      // 2. Group into Lines based on Y coordinate
-      // Sort by Y first
-      items.sort((a, b) => {
-        const yDiff = Math.abs(a.bottom - b.bottom);
-        if (yDiff < 8) { // Tolerance for same line
-           return a.x - b.x;
-        }
-        return a.bottom - b.bottom;
-      });
-
-      const lines: ReturnType<typeof mergeLine>[] = [];
-      let currentLine: TextItemPosition[] = [];
-
-      items.forEach((item) => {
-        if (currentLine.length === 0) {
-          currentLine.push(item);
-        } else {
-          const last = currentLine[currentLine.length - 1];
-          // Check line proximity (vertical)
-          if (Math.abs(item.bottom - last.bottom) < 8) {
-             currentLine.push(item);
-          } else {
-             lines.push(mergeLine(currentLine));
-             currentLine = [item];
-          }
-        }
-      });
-      if (currentLine.length > 0) lines.push(mergeLine(currentLine));
-
-      // 3. Detect Captions
-      // Regex allows for "Fig 1", "Figure. 1", "Fig. 1", "Figure 1"
-      // Also handles case insensitive
-      const captionRegex = /^(Figure|Fig)[\.\s]+(\d+)/i;
-      
-      const captionLines = lines.filter(l => {
-          const match = captionRegex.test(l.text);
-          if (match) console.log(`Found Caption Candidate on Page ${pageNum}: "${l.text}"`);
-          return match;
-      });
-
-      if (captionLines.length === 0) continue;
-
-      // 4. Render Page
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) continue;
-      
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      
-      // White background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      await page.render({ canvasContext: ctx, viewport } as any).promise;
-
-      // 5. Crop
-      for (const caption of captionLines) {
-        const match = caption.text.match(captionRegex);
-        if (!match) continue;
-        const label = `Figure ${match[2]}`; // Standardize to "Figure X"
-        
-        const cropBottom = caption.y; // Top of the caption text
-        
-        // Find text content strictly above
-        const linesAbove = lines.filter(l => l.bottom < cropBottom && l.bottom > 0);
-        linesAbove.sort((a, b) => b.bottom - a.bottom); // Closest first
-        
-        const nearestLine = linesAbove[0];
-        let cropTop = 0;
-        
-        if (nearestLine) {
-           cropTop = nearestLine.bottom + 15; // Padding below previous text
-        } else {
-           cropTop = Math.max(0, cropBottom - 600); // Fallback if no text above (top of page image)
-        }
-
-        // Sanity check: If the detected gap is too small (e.g. false detection or tight spacing)
-        // Force a minimum height window to ensure we catch the figure
-        if (cropBottom - cropTop < 100) {
-            cropTop = Math.max(0, cropBottom - 450);
-        }
-
-        let cropHeight = cropBottom - cropTop;
-        if (cropHeight <= 0) continue;
-
-        const cropCanvas = document.createElement('canvas');
-        cropCanvas.width = viewport.width;
-        cropCanvas.height = cropHeight;
-        const cropCtx = cropCanvas.getContext('2d');
-        
-        if (cropCtx) {
-           cropCtx.fillStyle = '#ffffff';
-           cropCtx.fillRect(0, 0, cropCanvas.width, cropCanvas.height);
-           cropCtx.drawImage(
-               canvas,
-               0, cropTop, viewport.width, cropHeight,
-               0, 0, viewport.width, cropHeight
-           );
-           
-           console.log(`Extracted ${label} from Page ${pageNum}`);
-           
-           extractedFigures.push({
-               id: `${pageNum}-${label}`,
-               label: label,
-               page: pageNum,
-               src: cropCanvas.toDataURL('image/png')
-           });
-        }
-      }
-
-    } catch (e) {
-      console.error(`Error processing page ${pageNum}`, e);
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    let text = '';
+    for (const item of textItems(textContent)) {
+      text += item.str;
+      text += item.hasEOL ? '\n' : ' ';
     }
+    pages.push({ page: pageNum, text: text.replace(/[ \t]+/g, ' ').trim() });
   }
-  
-  return extractedFigures;
+
+  return pages;
 };
 
-// Helper: Merges text items into a single line string, fixing fragmented words
-function mergeLine(items: TextItemPosition[]) {
-  // Sort by X
-  items.sort((a,b) => a.x - b.x);
-  
-  let text = items[0].str;
-  for (let i = 1; i < items.length; i++) {
-    const prev = items[i-1];
-    const curr = items[i];
-    
-    // Gap check: logic to decide if there is a space
-    // If the gap between end of prev and start of curr is "significant", add space.
-    // Otherwise assume it is part of the same word (e.g. "F" "i" "g").
-    const gap = curr.x - prev.right;
-    
-    // 5px threshold at scale 2.0 (approx 2.5px in PDF units)
-    if (gap > 5) { 
-        text += " ";
+// Joins page texts with page markers so the model can still cite page numbers.
+export const formatPagesForPrompt = (pages: PdfPageText[]): string =>
+  pages.map(p => `[Page ${p.page}]\n${p.text}`).join('\n\n');
+
+export interface PageRenderer {
+  numPages: number;
+  render: (pageNum: number) => Promise<OffscreenCanvas>;
+  textRuns: (pageNum: number) => Promise<TextSegment[]>; // in the same page pixels as `render`
+  destroy: () => void;
+}
+
+// Every text item of a page with its box, at RENDER_SCALE.
+const pageTextRuns = async (page: pdfjsLib.PDFPageProxy): Promise<TextSegment[]> => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const textContent = await page.getTextContent();
+  return textItems(textContent)
+    .filter(item => item.str.trim())
+    .map(item => {
+      const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+      const height = Math.abs(item.height * RENDER_SCALE) || 10;
+      return { text: item.str, x0: x, y0: y - height, x1: x + item.width * RENDER_SCALE, y1: y };
+    });
+};
+
+// Keeps one PDF open for repeated page renders, e.g. while cropping figures by hand.
+export const createPageRenderer = async (file: File): Promise<PageRenderer> => {
+  const pdf = await loadPdf(file);
+  return {
+    numPages: pdf.numPages,
+    render: async (pageNum) => renderPage(await pdf.getPage(pageNum)),
+    textRuns: async (pageNum) => pageTextRuns(await pdf.getPage(pageNum)),
+    destroy: () => {
+      pdf.destroy();
     }
-    text += curr.str;
+  };
+};
+
+/** Wraps a freshly cropped image as a figure with a displayable object URL. */
+export const figureFromBlob = (blob: Blob, figure: Omit<ExtractedImage, 'src' | 'blob'>): ExtractedImage => ({
+  ...figure,
+  src: URL.createObjectURL(blob),
+  blob
+});
+
+export interface ExtractionOptions {
+  signal?: AbortSignal; // terminates the worker
+  onProgress?: (page: number, numPages: number) => void;
+  imageSettings?: ImageSettings; // how crops are trimmed and compressed
+}
+
+/**
+ * Finds and crops every captioned figure and table in a dedicated worker, so
+ * long PDFs do not freeze the editor. Rejects with a PdfParseError when the
+ * PDF cannot be opened; pages that fail on their own are skipped.
+ */
+export const extractImagesFromPdf = async (file: File, { signal, onProgress, imageSettings = DEFAULT_IMAGE_SETTINGS }: ExtractionOptions = {}): Promise<ExtractedImage[]> => {
+  signal?.throwIfAborted();
+  const data = await file.arrayBuffer();
+  signal?.throwIfAborted(); // cancelled while the file was being read: never start the worker
+  const worker = new Worker(new URL('./figureExtraction.worker.ts', import.meta.url), { type: 'module' });
+  let onAbort = () => {};
+
+  try {
+    const figures = await new Promise<PageFigure[]>((resolve, reject) => {
+      onAbort = () => reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+      signal?.addEventListener('abort', onAbort);
+      worker.onmessage = (e: MessageEvent<FigureWorkerResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') onProgress?.(msg.page, msg.numPages);
+        else if (msg.type === 'done') resolve(msg.figures);
+        else reject(new PdfParseError(msg.message));
+      };
+      worker.onerror = (e) => reject(new Error(e.message || "Figure extraction worker failed"));
+      const request: FigureWorkerRequest = { type: 'extract', data, settings: imageSettings };
+      worker.postMessage(request, [data]);
+    });
+    return figures.map(({ blob, ...figure }) => figureFromBlob(blob, { id: `${figure.page}-${figure.label}`, ...figure }));
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
   }
-  
-  const y = Math.min(...items.map(i => i.y));
-  const bottom = Math.max(...items.map(i => i.bottom));
-  
-  // Use the first item's x
-  const x = items[0].x;
-  
-  return { text, x, y, bottom, height: bottom - y };
-}
\ No newline at end of file
+};
@@ -0,0 +1,44 @@
+// Finds a quoted passage among the text runs of a PDF page, for highlighting it.
+import { Rect, TextSegment } from './figureBounds';
+
+const MIN_QUOTE = 8; // shorter quotes match all over the page
+const WINDOW = 30; // characters per probe when the quote is not verbatim
+
+// Letters and digits only: PDF text splits words, hyphenates at line ends and
+// stores ligatures (ﬁ), so punctuation and spacing cannot be compared.
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * The boxes of the runs that make up `quote` on the page, or null when it is not
+ * there. A quote the model shortened or paraphrased is matched by its longest
+ * stretch between a verbatim start and a verbatim end.
+ */
+export const findQuoteRects = (runs: TextSegment[], quote: string): Rect[] | null => {
+  const needle = normalize(quote);
+  if (needle.length < MIN_QUOTE) return null;
+
+  // The page's characters, each with the run it came from
+  let haystack = '';
+  const owners: number[] = [];
+  runs.forEach((run, i) => {
+    const chars = normalize(run.text);
+    haystack += chars;
+    for (let c = 0; c < chars.length; c++) owners.push(i);
+  });
+
+  let start = haystack.indexOf(needle);
+  let end = start + needle.length;
+  if (start < 0) {
+    const probes: number[] = [];
+    for (let at = 0; at + WINDOW <= needle.length; at += WINDOW / 2) {
+      const found = haystack.indexOf(needle.slice(at, at + WINDOW));
+      if (found >= 0) probes.push(found);
+    }
+    if (probes.length === 0) return null;
+    start = probes[0];
+    end = Math.max(...probes.filter(p => p >= start && p - start < needle.length * 2)) + WINDOW;
+  }
+
+  const used = new Set(owners.slice(start, end));
+  return runs.filter((_, i) => used.has(i)).map(({ x0, y0, x1, y1 }) => ({ x0, y0, x1, y1 }));
+};
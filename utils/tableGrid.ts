@@ -0,0 +1,56 @@
+import { Rect, TextSegment } from './figureBounds';
+
+const center = (r: Rect) => ({ x: (r.x0 + r.x1) / 2, y: (r.y0 + r.y1) / 2 });
+
+// Segments that share most of their height sit on the same row.
+const groupRows = (segments: TextSegment[]) => {
+  const rows: TextSegment[][] = [];
+  [...segments].sort((a, b) => a.y0 - b.y0).forEach(segment => {
+    const row = rows[rows.length - 1];
+    const last = row?.[row.length - 1];
+    const overlap = last ? Math.min(last.y1, segment.y1) - Math.max(last.y0, segment.y0) : 0;
+    if (last && overlap > Math.min(last.y1 - last.y0, segment.y1 - segment.y0) / 2) {
+      row.push(segment);
+    } else {
+      rows.push([segment]);
+    }
+  });
+  return rows.map(row => row.sort((a, b) => a.x0 - b.x0));
+};
+
+/**
+ * Rebuilds the cell grid of a table from the text inside its bounds. Column
+ * edges come from the rows with the most cells (the body rows); every other
+ * segment — spanning headers, wrapped cells — goes to the column holding its
+ * centre. Returns [] when the text does not look like a grid.
+ */
+export const reconstructTable = (bounds: Rect, segments: TextSegment[]): string[][] => {
+  const inside = segments.filter(s => {
+    const { x, y } = center(s);
+    return x >= bounds.x0 && x <= bounds.x1 && y >= bounds.y0 && y <= bounds.y1;
+  });
+  const rows = groupRows(inside);
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  if (rows.length < 2 || columnCount < 2) return [];
+
+  // Column k spans the k-th segment of every full row; cut halfway between neighbours.
+  const full = rows.filter(r => r.length === columnCount);
+  const spans = Array.from({ length: columnCount }, (_, k) => ({
+    x0: Math.min(...full.map(r => r[k].x0)),
+    x1: Math.max(...full.map(r => r[k].x1))
+  }));
+  const cuts = spans.slice(1).map((span, k) => (spans[k].x1 + span.x0) / 2);
+  const columnOf = (s: TextSegment) => {
+    const idx = cuts.findIndex(cut => center(s).x < cut);
+    return idx === -1 ? columnCount - 1 : idx;
+  };
+
+  return rows.map(row => {
+    const cells: string[] = Array(columnCount).fill('');
+    row.forEach(s => {
+      const k = columnOf(s);
+      cells[k] = cells[k] ? `${cells[k]} ${s.text}` : s.text;
+    });
+    return cells;
+  });
+};
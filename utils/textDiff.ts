@@ -0,0 +1,56 @@
+export interface DiffPart {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Words for Latin script and numbers, single characters for CJK and punctuation,
+// so Chinese and English text both diff at a readable granularity.
+const tokenize = (text: string) => text.match(/[A-Za-z0-9_%.-]+|\s+|[\s\S]/gu) ?? [];
+
+const MAX_CELLS = 4_000_000; // beyond this the table gets too big to build in a click
+
+const pushPart = (parts: DiffPart[], text: string, type: DiffPart['type']) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ text, type });
+};
+
+/**
+ * Token diff via the longest common subsequence. Very long inputs fall back to
+ * "all removed, all added".
+ */
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_CELLS) {
+    return [{ text: before, type: 'removed' }, { text: after, type: 'added' }];
+  }
+
+  // lcs[i][j]: common tokens of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, a[i++], 'same');
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushPart(parts, a[i++], 'removed');
+    } else {
+      pushPart(parts, b[j++], 'added');
+    }
+  }
+  while (i < a.length) pushPart(parts, a[i++], 'removed');
+  while (j < b.length) pushPart(parts, b[j++], 'added');
+  return parts;
+};
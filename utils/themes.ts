@@ -0,0 +1,224 @@
+import type { CSSProperties } from 'react';
+import { ArticleTheme, HighlightBoxStyle, SectionHeaderStyle } from '../types';
+import { FOOTER_DISCLAIMER, HIGHLIGHT_LABEL, SUMMARY_LABEL } from './articleText';
+
+const SANS = 'system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif';
+const SERIF = '"Songti SC", "Noto Serif SC", "Times New Roman", serif';
+
+// The original WeChat-green look.
+export const CLASSIC_THEME: ArticleTheme = {
+  id: 'classic',
+  name: 'WeChat Classic',
+  colors: {
+    primary: '#07C160',
+    text: '#333333',
+    muted: '#888888',
+    accent: '#576b95',
+    sectionNumber: '#eeeeee',
+    summaryBackground: '#f7f7f7',
+    highlightBackground: '#f4f6f9',
+    termBackground: '#e6f7ef',
+    footerBackground: '#f9f9f9'
+  },
+  fonts: { body: SANS, heading: SANS },
+  bodyFontSize: 16,
+  headerStyle: 'big-number',
+  highlightStyle: 'dashed',
+  summaryLabel: SUMMARY_LABEL,
+  highlightLabel: HIGHLIGHT_LABEL,
+  footerText: FOOTER_DISCLAIMER
+};
+
+export const BUILT_IN_THEMES: ArticleTheme[] = [
+  CLASSIC_THEME,
+  {
+    ...CLASSIC_THEME,
+    id: 'ink',
+    name: 'Academic Ink',
+    colors: {
+      primary: '#1f2937',
+      text: '#222222',
+      muted: '#6b7280',
+      accent: '#374151',
+      sectionNumber: '#9ca3af',
+      summaryBackground: '#f9fafb',
+      highlightBackground: '#ffffff',
+      termBackground: '#f3f4f6',
+      footerBackground: '#f9fafb'
+    },
+    fonts: { body: SERIF, heading: SERIF },
+    headerStyle: 'underline',
+    highlightStyle: 'quote',
+    highlightLabel: '要点：'
+  },
+  {
+    ...CLASSIC_THEME,
+    id: 'ocean',
+    name: 'Ocean Blue',
+    colors: {
+      primary: '#1677ff',
+      text: '#333333',
+      muted: '#8c8c8c',
+      accent: '#0958d9',
+      sectionNumber: '#1677ff',
+      summaryBackground: '#f0f7ff',
+      highlightBackground: '#e6f4ff',
+      termBackground: '#e6f4ff',
+      footerBackground: '#f5f8fc'
+    },
+    headerStyle: 'numbered-bar',
+    highlightStyle: 'left-bar'
+  },
+  {
+    ...CLASSIC_THEME,
+    id: 'vivid',
+    name: 'Vivid Lab',
+    colors: {
+      primary: '#7c3aed',
+      text: '#2e2e2e',
+      muted: '#8b8b99',
+      accent: '#7c3aed',
+      sectionNumber: '#ffffff',
+      summaryBackground: '#f5f3ff',
+      highlightBackground: '#7c3aed',
+      termBackground: '#ede9fe',
+      footerBackground: '#faf8ff'
+    },
+    headerStyle: 'boxed',
+    highlightStyle: 'filled'
+  }
+];
+
+const CUSTOM_THEMES_KEY = 'wechat-scholar.themes';
+const ACTIVE_THEME_KEY = 'wechat-scholar.active-theme';
+
+export const loadCustomThemes = (): ArticleTheme[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_THEMES_KEY);
+    return stored ? JSON.parse(stored).map(normalizeTheme) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable custom themes", e);
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: ArticleTheme[]) => {
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+};
+
+export const loadActiveThemeId = () => localStorage.getItem(ACTIVE_THEME_KEY) || CLASSIC_THEME.id;
+
+export const saveActiveThemeId = (id: string) => {
+  localStorage.setItem(ACTIVE_THEME_KEY, id);
+};
+
+export const isBuiltInTheme = (id: string) => BUILT_IN_THEMES.some(t => t.id === id);
+
+const HEADER_STYLES: SectionHeaderStyle[] = ['big-number', 'numbered-bar', 'underline', 'boxed'];
+const HIGHLIGHT_STYLES: HighlightBoxStyle[] = ['dashed', 'left-bar', 'filled', 'quote'];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_COLOR = /^rgba?\(\s*\d{1,3}%?\s*(?:,\s*\d{1,3}%?\s*){2}(?:,\s*(?:0|1|0?\.\d+)\s*)?\)$/i;
+const FONT_STACK = /^[\p{L}\p{N}\s,"'._-]{1,200}$/u; // family names, quotes and commas only
+
+const isColor = (value: string) => HEX_COLOR.test(value) || RGB_COLOR.test(value);
+
+// Colours and fonts end up inside a <style> block: a value that is not plainly a
+// colour or a font stack falls back to the classic theme's.
+const safeValues = <T extends Record<string, string>>(fallback: T, raw: unknown, isSafe: (value: string) => boolean): T =>
+  Object.fromEntries(Object.entries(fallback).map(([key, value]) => {
+    const candidate = (raw as Record<string, unknown> | undefined)?.[key];
+    return [key, typeof candidate === 'string' && isSafe(candidate.trim()) ? candidate.trim() : value];
+  })) as T;
+
+// Fills anything a hand-written or older theme file leaves out from the classic theme.
+const normalizeTheme = (raw: Partial<ArticleTheme>): ArticleTheme => ({
+  ...CLASSIC_THEME,
+  ...raw,
+  id: raw.id || CLASSIC_THEME.id,
+  name: raw.name || 'Untitled Theme',
+  colors: safeValues(CLASSIC_THEME.colors, raw.colors, isColor),
+  fonts: safeValues(CLASSIC_THEME.fonts, raw.fonts, value => FONT_STACK.test(value)),
+  headerStyle: HEADER_STYLES.includes(raw.headerStyle!) ? raw.headerStyle! : CLASSIC_THEME.headerStyle,
+  highlightStyle: HIGHLIGHT_STYLES.includes(raw.highlightStyle!) ? raw.highlightStyle! : CLASSIC_THEME.highlightStyle,
+  bodyFontSize: Number(raw.bodyFontSize) || CLASSIC_THEME.bodyFontSize,
+  qrCode: raw.qrCode && typeof raw.qrCode.imageUrl === 'string' && raw.qrCode.imageUrl
+    ? { imageUrl: raw.qrCode.imageUrl, caption: typeof raw.qrCode.caption === 'string' ? raw.qrCode.caption : '' }
+    : undefined
+});
+
+/**
+ * Reads a theme from exported JSON. Imports never overwrite a built-in: they get
+ * a fresh id if theirs collides with one.
+ */
+export const parseThemeJson = (json: string): ArticleTheme => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Theme file is not valid JSON");
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw) || !('name' in raw)) {
+    throw new Error("Theme file must be an object with at least a \"name\"");
+  }
+  const theme = normalizeTheme(raw as Partial<ArticleTheme>);
+  if (!('id' in raw) || isBuiltInTheme(theme.id)) {
+    theme.id = `custom-${Date.now().toString(36)}`;
+  }
+  return theme;
+};
+
+export const serializeTheme = (theme: ArticleTheme) => JSON.stringify(theme, null, 2);
+
+// --- Style factories used by ArticleRenderer ----------------------------------
+
+export interface SectionHeaderStyles {
+  container?: CSSProperties; // only for layouts that need a wrapper around number + title
+  number: CSSProperties;
+  title: CSSProperties;
+}
+
+export const sectionHeaderStyles = (theme: ArticleTheme): SectionHeaderStyles => {
+  const { colors, fonts } = theme;
+  const title: CSSProperties = { fontSize: '18px', fontWeight: 'bold', fontFamily: fonts.heading, margin: 0 };
+
+  switch (theme.headerStyle) {
+    case 'numbered-bar':
+      return {
+        number: { color: colors.sectionNumber, marginRight: '8px', fontFamily: 'Helvetica, Arial, sans-serif', userSelect: 'none' },
+        title: { ...title, borderLeft: `4px solid ${colors.primary}`, paddingLeft: '10px', marginBottom: '16px' }
+      };
+    case 'underline':
+      return {
+        number: { display: 'block', fontSize: '13px', color: colors.sectionNumber, letterSpacing: '2px', marginBottom: '4px', userSelect: 'none' },
+        title: { ...title, textAlign: 'center', borderBottom: `1px solid ${colors.primary}`, paddingBottom: '8px', marginBottom: '16px' }
+      };
+    case 'boxed':
+      return {
+        number: { color: colors.sectionNumber, opacity: 0.8, marginRight: '8px', userSelect: 'none' },
+        title: { ...title, display: 'inline-block', backgroundColor: colors.primary, color: '#ffffff', padding: '6px 14px', borderRadius: '4px', marginBottom: '16px' }
+      };
+    default:
+      return {
+        container: { display: 'flex', alignItems: 'center', marginBottom: '16px' },
+        number: { fontSize: '36px', fontWeight: '900', color: colors.sectionNumber, marginRight: '-10px', zIndex: 0, fontFamily: 'Helvetica, Arial, sans-serif', userSelect: 'none' },
+        title: { ...title, borderBottom: `2px solid ${colors.primary}`, paddingBottom: '4px', zIndex: 1, paddingLeft: '12px' }
+      };
+  }
+};
+
+export const highlightBoxStyle = (theme: ArticleTheme): CSSProperties => {
+  const { colors } = theme;
+  const base: CSSProperties = { marginTop: '16px', padding: '12px', fontSize: '14px' };
+
+  switch (theme.highlightStyle) {
+    case 'left-bar':
+      return { ...base, borderLeft: `4px solid ${colors.accent}`, backgroundColor: colors.highlightBackground, color: colors.accent };
+    case 'filled':
+      return { ...base, borderRadius: '6px', backgroundColor: colors.highlightBackground, color: '#ffffff' };
+    case 'quote':
+      return { ...base, borderLeft: `2px solid ${colors.muted}`, fontStyle: 'italic', color: colors.text };
+    default:
+      return { ...base, border: `1px dashed ${colors.accent}`, borderRadius: '6px', backgroundColor: colors.highlightBackground, color: colors.accent };
+  }
+};
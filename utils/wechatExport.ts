@@ -0,0 +1,220 @@
+import JSZip from 'jszip';
+
+// Markers set by ArticleRenderer so the exporter knows what to drop or rewrite.
+// `data-export="remove"`: editor-only UI (placeholders, hints).
+// `data-export="section-header"`: numbered header built with flex + negative margins.
+export const EXPORT_ATTR = 'data-export';
+
+export interface ExportedImage {
+  fileName: string; // e.g. "image-01.png"
+  blob: Blob;
+}
+
+export interface WechatExportResult {
+  // Clean, inline-styled markup; local images are referenced as "images/<fileName>".
+  html: string;
+  images: ExportedImage[];
+}
+
+const IMAGE_DIR = 'images/';
+
+// Properties inherited by children: only written where they differ from the parent.
+const INHERITED_PROPS = [
+  'color', 'font-size', 'font-weight', 'font-style', 'font-family',
+  'line-height', 'letter-spacing', 'text-align', 'text-indent', 'word-break'
+];
+
+// Box properties: only written where they differ from the initial value.
+const BOX_PROPS: Record<string, string> = {
+  'margin-top': '0px', 'margin-right': '0px', 'margin-bottom': '0px', 'margin-left': '0px',
+  'padding-top': '0px', 'padding-right': '0px', 'padding-bottom': '0px', 'padding-left': '0px',
+  'background-color': 'rgba(0, 0, 0, 0)',
+  'border-radius': '0px',
+  'box-shadow': 'none',
+  'text-decoration-line': 'none',
+  'max-width': 'none'
+};
+
+const BORDER_SIDES = ['top', 'right', 'bottom', 'left'];
+
+const INLINE_TAGS = new Set(['SPAN', 'STRONG', 'B', 'EM', 'I', 'A', 'IMG', 'BR']);
+
+// Attributes the WeChat editor strips or that only make sense in our editor.
+const DROPPED_ATTRS = ['class', 'id', 'contenteditable', 'spellcheck', 'draggable', 'tabindex'];
+
+const buildInlineStyle = (el: Element, style: CSSStyleDeclaration, parentStyle: CSSStyleDeclaration | null) => {
+  const declarations: string[] = [];
+
+  for (const prop of INHERITED_PROPS) {
+    const value = style.getPropertyValue(prop);
+    if (value && (!parentStyle || parentStyle.getPropertyValue(prop) !== value)) {
+      declarations.push(`${prop}: ${value}`);
+    }
+  }
+
+  for (const [prop, initial] of Object.entries(BOX_PROPS)) {
+    const value = style.getPropertyValue(prop);
+    if (value && value !== initial) {
+      declarations.push(`${prop === 'text-decoration-line' ? 'text-decoration' : prop}: ${value}`);
+    }
+  }
+
+  for (const side of BORDER_SIDES) {
+    const width = style.getPropertyValue(`border-${side}-width`);
+    const lineStyle = style.getPropertyValue(`border-${side}-style`);
+    if (lineStyle !== 'none' && width !== '0px') {
+      declarations.push(`border-${side}: ${width} ${lineStyle} ${style.getPropertyValue(`border-${side}-color`)}`);
+    }
+  }
+
+  // WeChat drops flex/grid layouts; fall back to plain block flow.
+  const display = style.getPropertyValue('display');
+  const isInline = INLINE_TAGS.has(el.tagName);
+  if (display === 'inline-block' || (display === 'block' && isInline)) {
+    declarations.push(`display: ${display}`);
+  } else if (display.includes('flex') || display.includes('grid')) {
+    declarations.push('display: block');
+  }
+
+  if (el.tagName === 'IMG') {
+    declarations.push('max-width: 100%', 'height: auto');
+  }
+
+  return declarations.join('; ');
+};
+
+// The on-screen header overlaps a big grey number with the title via flex and a
+// negative margin; WeChat keeps neither, so rebuild it as two inline-block spans.
+const rewriteSectionHeader = (header: HTMLElement) => {
+  const doc = header.ownerDocument;
+  const section = doc.createElement('section');
+  section.setAttribute('style', `${header.getAttribute('style') || ''}; display: block`);
+
+  Array.from(header.children).forEach(child => {
+    const span = doc.createElement('span');
+    span.innerHTML = child.innerHTML;
+    const childStyle = (child.getAttribute('style') || '').replace(/display:[^;]+;?/g, '');
+    span.setAttribute('style', `${childStyle}; display: inline-block; vertical-align: bottom`);
+    section.appendChild(span);
+  });
+
+  header.replaceWith(section);
+};
+
+// WeChat favours <section> over <div>; everything else keeps its tag.
+const renameDivs = (root: HTMLElement) => {
+  root.querySelectorAll('div').forEach(div => {
+    const section = root.ownerDocument.createElement('section');
+    Array.from(div.attributes).forEach(attr => section.setAttribute(attr.name, attr.value));
+    while (div.firstChild) section.appendChild(div.firstChild);
+    div.replaceWith(section);
+  });
+};
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const extensionFor = (mime: string) => {
+  if (mime.includes('jpeg')) return 'jpg';
+  if (mime.includes('svg')) return 'svg';
+  if (mime.includes('webp')) return 'webp';
+  return 'png';
+};
+
+/**
+ * Turns the edited preview into markup the WeChat editor accepts: every computed
+ * style is inlined, classes and editor attributes are removed, placeholders are
+ * dropped, section headers are flattened, and embedded data: images are split
+ * out as separate files.
+ */
+export const buildWechatExport = async (root: HTMLElement): Promise<WechatExportResult> => {
+  const clone = root.cloneNode(true) as HTMLElement;
+
+  // Styles must be read from the live tree; the clone is detached.
+  const originals = [root, ...Array.from(root.querySelectorAll('*'))];
+  const copies = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  const styles = new Map<Element, CSSStyleDeclaration>();
+  originals.forEach((el, i) => styles.set(copies[i], window.getComputedStyle(el)));
+
+  copies.forEach(copy => {
+    const style = styles.get(copy)!;
+    const parentStyle = copy === clone ? null : styles.get(copy.parentElement!) ?? null;
+    copy.setAttribute('style', buildInlineStyle(copy, style, parentStyle));
+    DROPPED_ATTRS.forEach(attr => copy.removeAttribute(attr));
+  });
+
+  clone.querySelectorAll(`[${EXPORT_ATTR}="remove"]`).forEach(el => el.remove());
+  clone.querySelectorAll<HTMLElement>(`[${EXPORT_ATTR}="section-header"]`).forEach(rewriteSectionHeader);
+
+  const images: ExportedImage[] = [];
+  for (const img of Array.from(clone.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') || '';
+    img.removeAttribute('srcset');
+    if (!src.startsWith('data:') && !src.startsWith('blob:')) continue;
+
+    const blob = await dataUrlToBlob(src);
+    const fileName = `image-${String(images.length + 1).padStart(2, '0')}.${extensionFor(blob.type)}`;
+    images.push({ fileName, blob });
+    img.setAttribute('src', `${IMAGE_DIR}${fileName}`);
+  }
+
+  renameDivs(clone);
+  clone.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes)
+      .filter(attr => attr.name.startsWith('data-'))
+      .forEach(attr => el.removeAttribute(attr.name));
+    if (el.getAttribute('style') === '') el.removeAttribute('style');
+  });
+
+  const wrapper = document.createElement('section');
+  wrapper.setAttribute('style', clone.getAttribute('style') || '');
+  wrapper.innerHTML = clone.innerHTML;
+  return { html: wrapper.outerHTML, images };
+};
+
+/**
+ * Rewrites the exported image references. `resolve` returns the final URL for a
+ * file (e.g. after uploading it), or null to replace the image with a visible
+ * reminder to insert it by hand.
+ */
+export const withImageSources = (result: WechatExportResult, resolve: (image: ExportedImage) => string | null): string => {
+  const template = document.createElement('template');
+  template.innerHTML = result.html;
+
+  template.content.querySelectorAll('img').forEach(img => {
+    const src = img.getAttribute('src') || '';
+    if (!src.startsWith(IMAGE_DIR)) return;
+    const image = result.images.find(i => `${IMAGE_DIR}${i.fileName}` === src);
+    const url = image ? resolve(image) : null;
+    if (url) {
+      img.setAttribute('src', url);
+    } else {
+      const note = document.createElement('p');
+      note.setAttribute('style', 'color: #999999; font-size: 13px; text-align: center');
+      note.textContent = `【此处插入图片 ${src.slice(IMAGE_DIR.length)}】`;
+      img.replaceWith(note);
+    }
+  });
+
+  return template.innerHTML;
+};
+
+// A ZIP with `article.html` referencing the images stored next to it in `images/`.
+export const createExportZip = async (result: WechatExportResult, title: string): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file('article.html', `<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body>${result.html}</body></html>`);
+  const folder = zip.folder(IMAGE_DIR.slice(0, -1))!;
+  result.images.forEach(image => folder.file(image.fileName, image.blob));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -8,11 +8,34 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // api.weixin.qq.com has no CORS headers; WECHAT_API_TARGET can point at the mock server.
+        proxy: {
+          '/wechat-api': {
+            target: env.WECHAT_API_TARGET || 'https://api.weixin.qq.com',
+            changeOrigin: true,
+            rewrite: (p) => p.replace(/^\/wechat-api/, '')
+          }
+        }
       },
       plugins: [react()],
+      // Figure extraction runs in a module worker that itself starts the pdf.js worker
+      worker: {
+        format: 'es'
+      },
+      // pdf.js uses top-level await, in the app bundle and the worker alike
+      build: {
+        target: 'es2022'
+      },
+      optimizeDeps: {
+        esbuildOptions: { target: 'es2022' }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL)
       },
       resolve: {
         alias: {